@@ -1,4 +1,12 @@
-import { hash32, hash128, hash128x64 } from '../src/index.ts';
+import {
+  hash32,
+  hash128,
+  hash128x64,
+  hash32Batch,
+  hash128x64Batch,
+  setBackend,
+} from '../src/index.ts';
+import { baselineHash128x64 } from './baseline-hash128x64.ts';
 
 interface BenchResult {
   name: string;
@@ -57,6 +65,46 @@ results.push(bench('hash128x64 (medium string)', () => hash128x64(mediumStr)));
 results.push(bench('hash128x64 (long string)', () => hash128x64(longStr), 10000));
 results.push(bench('hash128x64 (1KB bytes)', () => hash128x64(bytes), 10000));
 
+// Backend comparison on large input
+const megabyte = new Uint8Array(1 << 20).map((_, i) => i * 7);
+for (const backend of ['js', 'wasm'] as const) {
+  setBackend(backend);
+  results.push(bench(`hash32 (1MB bytes, ${backend})`, () => hash32(megabyte), 100));
+  results.push(bench(`hash128 (1MB bytes, ${backend})`, () => hash128(megabyte), 100));
+  results.push(bench(`hash128x64 (1MB bytes, ${backend})`, () => hash128x64(megabyte), 100));
+}
+setBackend('auto');
+
+// x64 core before and after the allocation-free rewrite (JS backend)
+const x64Inputs: Array<[string, Uint8Array, number]> = [
+  ['short', new TextEncoder().encode(mediumStr), 100000],
+  ['1KB', bytes, 10000],
+  ['1MB', megabyte, 20],
+];
+setBackend('js');
+for (const [label, input, iterations] of x64Inputs) {
+  if (baselineHash128x64(input) !== hash128x64(input)) {
+    throw new Error(`hash128x64 differs from the baseline on ${label} input`);
+  }
+  results.push(bench(`hash128x64 (${label}, baseline)`, () => baselineHash128x64(input), iterations));
+  results.push(bench(`hash128x64 (${label}, current)`, () => hash128x64(input), iterations));
+}
+setBackend('auto');
+
+// Batch benchmarks (1,000 keys per op)
+const keys = Array.from({ length: 1000 }, (_, i) => `user:${i}:session`);
+const out32 = new Uint32Array(keys.length);
+const out128 = new Uint32Array(keys.length * 4);
+
+results.push(bench('hash32 x1000 (loop)', () => {
+  for (let i = 0; i < keys.length; i++) out32[i] = hash32(keys[i]);
+}, 1000));
+results.push(bench('hash32Batch x1000', () => hash32Batch(keys, 0, out32), 1000));
+results.push(bench('hash128x64 x1000 (loop)', () => {
+  for (let i = 0; i < keys.length; i++) hash128x64(keys[i]);
+}, 1000));
+results.push(bench('hash128x64Batch x1000', () => hash128x64Batch(keys, 0, out128), 1000));
+
 // Print results
 console.log('Results:\n');
 console.log('Function                      | ops/sec      | avg time');
@@ -0,0 +1,24 @@
+import { readFileSync, writeFileSync } from 'node:fs';
+import wabtInit from 'wabt';
+
+const source = new URL('../src/wasm/murmur.wat', import.meta.url);
+const target = new URL('../src/wasm/binary.ts', import.meta.url);
+
+const wabt = await wabtInit();
+const module = wabt.parseWat('murmur.wat', readFileSync(source, 'utf8'));
+module.validate();
+const { buffer } = module.toBinary({});
+module.destroy();
+
+const base64 = Buffer.from(buffer).toString('base64');
+const lines = base64.match(/.{1,76}/g) ?? [];
+
+writeFileSync(
+  target,
+  `// Generated by scripts/build-wasm.ts from murmur.wat. Do not edit.
+export const WASM_BASE64 =
+${lines.map((line) => `  '${line}'`).join(' +\n')};
+`
+);
+
+console.log(`Wrote ${buffer.length} bytes of WebAssembly to src/wasm/binary.ts`);
@@ -0,0 +1,258 @@
+import type {
+  HashInput,
+  Hash32Options,
+  Hash128Options,
+  Hash128x64Options,
+  StringEncoding,
+} from './types.ts';
+import type { Digest32, Digest128 } from './output.ts';
+import { toBytes } from './encoding.ts';
+import { resolveOptions, type OutputOf } from './profiles.ts';
+import { Hash32Stream } from './hash32.ts';
+import { Hash128Stream } from './hash128.ts';
+import { Hash128x64Stream } from './hash128x64.ts';
+
+/**
+ * Data sources accepted by the async hash functions. Async iterables
+ * include Node.js readable streams; ReadableStream covers fetch() bodies.
+ */
+export type AsyncHashSource =
+  | AsyncIterable<HashInput>
+  | ReadableStream<HashInput>
+  | Blob;
+
+/**
+ * Options for reading an AsyncHashSource
+ */
+export interface AsyncHashOptions {
+  /** Stop reading; the promise rejects with the signal's reason */
+  signal?: AbortSignal;
+  /**
+   * Called after each chunk with the number of bytes hashed so far and the
+   * source's total size, when known (Blobs and files)
+   */
+  onProgress?: (bytesRead: number, totalBytes: number | undefined) => void;
+  /**
+   * Bytes to read at a time from Blobs, byte streams and files
+   * (default: 65536). Other sources hash chunks as they produce them.
+   */
+  readSize?: number;
+}
+
+const DEFAULT_READ_SIZE = 64 * 1024;
+
+/**
+ * Resolve with the promise's result, or reject as soon as the signal
+ * aborts, whichever happens first
+ */
+function abortable<T>(
+  promise: Promise<T>,
+  signal: AbortSignal | undefined
+): Promise<T> {
+  if (signal === undefined) {
+    return promise;
+  }
+  return new Promise((resolve, reject) => {
+    const onAbort = () => reject(signal.reason);
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise
+      .then(resolve, reject)
+      .finally(() => signal.removeEventListener('abort', onAbort));
+  });
+}
+
+async function readBlob(
+  blob: Blob,
+  readSize: number,
+  signal: AbortSignal | undefined,
+  write: (chunk: HashInput) => void
+): Promise<void> {
+  for (let offset = 0; offset < blob.size; offset += readSize) {
+    const slice = blob.slice(offset, offset + readSize);
+    write(await abortable(slice.arrayBuffer(), signal));
+  }
+}
+
+async function readStream(
+  stream: ReadableStream<HashInput>,
+  readSize: number,
+  signal: AbortSignal | undefined,
+  write: (chunk: HashInput) => void
+): Promise<void> {
+  // Byte streams are read into one recycled buffer of readSize bytes
+  let byob = true;
+  let reader: ReadableStreamBYOBReader | ReadableStreamDefaultReader<HashInput>;
+  try {
+    reader = stream.getReader({ mode: 'byob' });
+  } catch {
+    byob = false;
+    reader = stream.getReader();
+  }
+  try {
+    let buffer = new Uint8Array(readSize);
+    for (;;) {
+      const { done, value } = await abortable(
+        byob
+          ? (reader as ReadableStreamBYOBReader).read(buffer)
+          : (reader as ReadableStreamDefaultReader<HashInput>).read(),
+        signal
+      );
+      if (done) {
+        break;
+      }
+      write(value);
+      if (byob) {
+        buffer = new Uint8Array((value as Uint8Array).buffer as ArrayBuffer);
+      }
+    }
+  } catch (error) {
+    reader.cancel(error).catch(() => {});
+    throw error;
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+async function readIterable(
+  iterable: AsyncIterable<HashInput>,
+  signal: AbortSignal | undefined,
+  write: (chunk: HashInput) => void
+): Promise<void> {
+  const iterator = iterable[Symbol.asyncIterator]();
+  try {
+    for (;;) {
+      const { done, value } = await abortable(iterator.next(), signal);
+      if (done) {
+        break;
+      }
+      write(value);
+    }
+  } catch (error) {
+    // Let the source release its resources, e.g. close a file
+    iterator.return?.()?.catch(() => {});
+    throw error;
+  }
+}
+
+/**
+ * The readSize option or its default. Throws a RangeError unless it is a
+ * positive integer.
+ *
+ * @internal Shared with the Node.js file helpers
+ */
+export function resolveReadSize(options: AsyncHashOptions | undefined): number {
+  const readSize = options?.readSize ?? DEFAULT_READ_SIZE;
+  if (!Number.isInteger(readSize) || readSize < 1) {
+    throw new RangeError(`Invalid read size: ${readSize}`);
+  }
+  return readSize;
+}
+
+/**
+ * Feed every chunk of source to update() as bytes, in order. Only one
+ * chunk is held at a time. Strings are encoded with the given encoding.
+ * totalBytes is reported to onProgress when the source has no size of
+ * its own.
+ *
+ * @internal Shared with the Node.js file helpers
+ */
+export async function readSource(
+  source: AsyncHashSource,
+  encoding: StringEncoding,
+  options: AsyncHashOptions | undefined,
+  update: (bytes: Uint8Array) => void,
+  totalBytes?: number
+): Promise<void> {
+  const readSize = resolveReadSize(options);
+  const signal = options?.signal;
+  if (signal?.aborted) {
+    throw signal.reason;
+  }
+
+  const isBlob = typeof Blob !== 'undefined' && source instanceof Blob;
+  const total = isBlob ? source.size : totalBytes;
+  let bytesRead = 0;
+  const write = (chunk: HashInput) => {
+    const bytes = toBytes(chunk, encoding);
+    update(bytes);
+    bytesRead += bytes.length;
+    options?.onProgress?.(bytesRead, total);
+    if (signal?.aborted) {
+      throw signal.reason;
+    }
+  };
+
+  if (isBlob) {
+    await readBlob(source, readSize, signal, write);
+  } else if (typeof (source as ReadableStream).getReader === 'function') {
+    const stream = source as ReadableStream<HashInput>;
+    await readStream(stream, readSize, signal, write);
+  } else if (
+    source !== null &&
+    typeof source === 'object' &&
+    Symbol.asyncIterator in source
+  ) {
+    await readIterable(source, signal, write);
+  } else {
+    throw new TypeError(
+      `Cannot read ${source === null ? 'null' : typeof source}: expected an ` +
+        'AsyncIterable, ReadableStream or Blob'
+    );
+  }
+}
+
+/**
+ * MurmurHash3 x86 32-bit of everything an async source produces. Accepts
+ * the same options as hash32(), plus signal, onProgress and readSize.
+ */
+export function hash32Async<T extends Hash32Options & AsyncHashOptions = {}>(
+  source: AsyncHashSource,
+  options?: T
+): Promise<Digest32<OutputOf<T, 'x86_32', 'unsigned'>>>;
+export async function hash32Async(
+  source: AsyncHashSource,
+  options?: Hash32Options & AsyncHashOptions
+): Promise<Digest32> {
+  const stream = new Hash32Stream(options);
+  const { encoding } = resolveOptions(options, 'x86_32', 'unsigned');
+  await readSource(source, encoding, options, (bytes) => stream.update(bytes));
+  return stream.digest();
+}
+
+/**
+ * MurmurHash3 x86 128-bit of everything an async source produces. Accepts
+ * the same options as hash128(), plus signal, onProgress and readSize.
+ */
+export function hash128Async<T extends Hash128Options & AsyncHashOptions = {}>(
+  source: AsyncHashSource,
+  options?: T
+): Promise<Digest128<OutputOf<T, 'x86_128', 'hex'>>>;
+export async function hash128Async(
+  source: AsyncHashSource,
+  options?: Hash128Options & AsyncHashOptions
+): Promise<Digest128> {
+  const stream = new Hash128Stream(options);
+  const { encoding } = resolveOptions(options, 'x86_128', 'hex');
+  await readSource(source, encoding, options, (bytes) => stream.update(bytes));
+  return stream.digest();
+}
+
+/**
+ * MurmurHash3 x64 128-bit of everything an async source produces. Accepts
+ * the same options as hash128x64(), plus signal, onProgress and readSize.
+ */
+export function hash128x64Async<
+  T extends Hash128x64Options & AsyncHashOptions = {},
+>(
+  source: AsyncHashSource,
+  options?: T
+): Promise<Digest128<OutputOf<T, 'x64_128', 'hex'>>>;
+export async function hash128x64Async(
+  source: AsyncHashSource,
+  options?: Hash128x64Options & AsyncHashOptions
+): Promise<Digest128> {
+  const stream = new Hash128x64Stream(options);
+  const { encoding } = resolveOptions(options, 'x64_128', 'hex');
+  await readSource(source, encoding, options, (bytes) => stream.update(bytes));
+  return stream.digest();
+}
@@ -0,0 +1,45 @@
+import { loadWasm, type WasmCore } from './wasm/index.ts';
+
+/**
+ * Hash implementation used by hash32(), hash128() and hash128x64()
+ */
+export type Backend = 'js' | 'wasm';
+
+let selected: Backend | 'auto' = 'auto';
+
+/**
+ * Choose the implementation behind the one-shot hash functions.
+ * 'auto' (the default) uses WebAssembly when the runtime supports it and
+ * falls back to JavaScript otherwise. Forcing 'wasm' throws if it is
+ * unavailable. Both produce identical output.
+ */
+export function setBackend(backend: Backend | 'auto'): void {
+  if (backend !== 'auto' && backend !== 'js' && backend !== 'wasm') {
+    throw new TypeError(`Unknown backend: ${String(backend)}`);
+  }
+  if (backend === 'wasm' && loadWasm() === null) {
+    throw new Error('WebAssembly backend is not available in this runtime');
+  }
+  selected = backend;
+}
+
+/**
+ * Implementation currently used by the one-shot hash functions
+ */
+export function getBackend(): Backend {
+  return wasmCore() === null ? 'js' : 'wasm';
+}
+
+/**
+ * Backend as last passed to setBackend(), including 'auto'
+ */
+export function selectedBackend(): Backend | 'auto' {
+  return selected;
+}
+
+/**
+ * WebAssembly core to hash with, or null to use the JS implementation
+ */
+export function wasmCore(): WasmCore | null {
+  return selected === 'js' ? null : loadWasm();
+}
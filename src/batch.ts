@@ -0,0 +1,162 @@
+import type { BatchInput, PackedInput } from './types.ts';
+import { toBytes, encodeString, encodedBytes } from './encoding.ts';
+import { compute as compute32 } from './hash32.ts';
+import { compute as compute128 } from './hash128.ts';
+import { compute as compute128x64 } from './hash128x64.ts';
+import { checkSeed, splitSeed64 } from './seed.ts';
+
+function isPacked(inputs: BatchInput): inputs is PackedInput {
+  return !Array.isArray(inputs);
+}
+
+function batchSize(inputs: BatchInput): number {
+  if (!isPacked(inputs)) {
+    return inputs.length;
+  }
+  if (inputs.offsets.length === 0) {
+    throw new RangeError('offsets must have at least one entry');
+  }
+  return inputs.offsets.length - 1;
+}
+
+/**
+ * Bounds of packed key i, validated against the data buffer
+ */
+function keyStart(inputs: PackedInput, i: number): number {
+  const start = inputs.offsets[i];
+  const end = inputs.offsets[i + 1];
+  if (!(start >= 0 && start <= end && end <= inputs.data.length)) {
+    throw new RangeError(`Invalid offsets for key ${i}: ${start}..${end}`);
+  }
+  return start;
+}
+
+function outputArray(
+  out: Uint32Array | undefined,
+  size: number
+): Uint32Array {
+  if (out === undefined) {
+    return new Uint32Array(size);
+  }
+  if (out.length < size) {
+    throw new RangeError(
+      `Output array too small: need ${size} entries, got ${out.length}`
+    );
+  }
+  return out;
+}
+
+/**
+ * Compute MurmurHash3 x86 32-bit hashes for many keys with one seed.
+ * Result i is the same as hash32(inputs[i], seed). Pass out to reuse a
+ * preallocated array.
+ */
+export function hash32Batch(
+  inputs: BatchInput,
+  seed: number = 0,
+  out?: Uint32Array
+): Uint32Array {
+  checkSeed(seed);
+  const count = batchSize(inputs);
+  const result = outputArray(out, count);
+
+  if (isPacked(inputs)) {
+    const { data, offsets } = inputs;
+    for (let i = 0; i < count; i++) {
+      const start = keyStart(inputs, i);
+      result[i] = compute32(data, start, offsets[i + 1] - start, seed);
+    }
+    return result;
+  }
+
+  for (let i = 0; i < count; i++) {
+    const input = inputs[i];
+    if (typeof input === 'string') {
+      const length = encodeString(input);
+      result[i] = compute32(encodedBytes(), 0, length, seed);
+    } else {
+      const bytes = toBytes(input);
+      result[i] = compute32(bytes, 0, bytes.length, seed);
+    }
+  }
+  return result;
+}
+
+/**
+ * Run a 128-bit hash over every key; hash writes four words to out at
+ * outOffset, with the seed already bound
+ */
+function batch128(
+  hash: (
+    bytes: Uint8Array,
+    offset: number,
+    len: number,
+    out: Uint32Array,
+    outOffset: number
+  ) => void,
+  inputs: BatchInput,
+  out: Uint32Array | undefined
+): Uint32Array {
+  const count = batchSize(inputs);
+  const result = outputArray(out, count * 4);
+
+  if (isPacked(inputs)) {
+    const { data, offsets } = inputs;
+    for (let i = 0; i < count; i++) {
+      const start = keyStart(inputs, i);
+      hash(data, start, offsets[i + 1] - start, result, i * 4);
+    }
+    return result;
+  }
+
+  for (let i = 0; i < count; i++) {
+    const input = inputs[i];
+    if (typeof input === 'string') {
+      const length = encodeString(input);
+      hash(encodedBytes(), 0, length, result, i * 4);
+    } else {
+      const bytes = toBytes(input);
+      hash(bytes, 0, bytes.length, result, i * 4);
+    }
+  }
+  return result;
+}
+
+/**
+ * Compute MurmurHash3 x86 128-bit hashes for many keys with one seed.
+ * Each key produces four 32-bit words at result[i * 4]; written as
+ * zero-padded hex in order they equal hash128(inputs[i], { seed }).
+ */
+export function hash128Batch(
+  inputs: BatchInput,
+  seed: number = 0,
+  out?: Uint32Array
+): Uint32Array {
+  checkSeed(seed);
+  return batch128(
+    (bytes, offset, len, words, wordOffset) =>
+      compute128(bytes, offset, len, seed, words, wordOffset),
+    inputs,
+    out
+  );
+}
+
+/**
+ * Compute MurmurHash3 x64 128-bit hashes for many keys with one seed.
+ * Each key produces four 32-bit words at result[i * 4] (h1 high, h1 low,
+ * h2 high, h2 low); written as zero-padded hex in order they equal
+ * hash128x64(inputs[i], { seed }).
+ */
+export function hash128x64Batch(
+  inputs: BatchInput,
+  seed: number | bigint = 0,
+  out?: Uint32Array
+): Uint32Array {
+  const [seedHi, seedLo] = splitSeed64(seed);
+  return batch128(
+    (bytes, offset, len, words, wordOffset) =>
+      compute128x64(bytes, offset, len, seedHi, seedLo, words, wordOffset),
+    inputs,
+    out
+  );
+}
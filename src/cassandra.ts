@@ -0,0 +1,68 @@
+import type { HashInput } from './types.ts';
+import { toBytes } from './encoding.ts';
+import { computeSignedTail } from './hash128x64.ts';
+
+const LONG_MIN = -(BigInt(1) << BigInt(63));
+const LONG_MAX = (BigInt(1) << BigInt(63)) - BigInt(1);
+
+// Reused digest words
+const words = new Uint32Array(4);
+
+/**
+ * Serialize partition key components the way Cassandra's CompositeType
+ * does: a 2-byte big-endian length, the bytes, then a 0x00 end-of-component
+ * byte for each component. A single component is not wrapped, matching a
+ * table with one partition key column.
+ */
+function compositeKey(components: readonly HashInput[]): Uint8Array {
+  if (components.length === 1) {
+    return toBytes(components[0]);
+  }
+  const parts = components.map((component) => toBytes(component).slice());
+  let size = 0;
+  for (const part of parts) {
+    if (part.length > 0xffff) {
+      throw new RangeError(
+        `Composite key component too long: ${part.length} bytes`
+      );
+    }
+    size += part.length + 3;
+  }
+
+  const key = new Uint8Array(size);
+  let offset = 0;
+  for (const part of parts) {
+    key[offset] = part.length >>> 8;
+    key[offset + 1] = part.length;
+    key.set(part, offset + 2);
+    offset += part.length + 3;
+  }
+  return key;
+}
+
+/**
+ * Cassandra Murmur3Partitioner token of a partition key, as returned by
+ * CQL's token() function. Strings are hashed as UTF-8 (the text type);
+ * other column types must be passed in their serialized form, e.g. an
+ * int as 4 big-endian bytes. Pass an array for a composite partition key.
+ *
+ * Reproduces Cassandra's sign-extension of tail bytes, which makes tokens
+ * differ from a standard MurmurHash3 x64_128 for some keys. An empty key
+ * maps to the minimum token.
+ */
+export function cassandraToken(key: HashInput | readonly HashInput[]): bigint {
+  const bytes = Array.isArray(key)
+    ? compositeKey(key)
+    : toBytes(key as HashInput);
+  if (bytes.length === 0) {
+    return LONG_MIN;
+  }
+
+  computeSignedTail(bytes, 0, bytes.length, 0, 0, words, 0);
+  const token = BigInt.asIntN(
+    64,
+    (BigInt(words[0]) << BigInt(32)) | BigInt(words[1])
+  );
+  // Long.MIN_VALUE is reserved for the minimum token
+  return token === LONG_MIN ? LONG_MAX : token;
+}
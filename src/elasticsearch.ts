@@ -0,0 +1,88 @@
+import { compute } from './hash32.ts';
+import { encodeString, encodedBytes } from './encoding.ts';
+
+/**
+ * Index settings that determine document routing
+ */
+export interface ShardRoutingOptions {
+  /** index.number_of_shards */
+  numberOfShards: number;
+  /**
+   * index.number_of_routing_shards (default: the value Elasticsearch 7+
+   * and OpenSearch pick for numberOfShards). Pass numberOfShards for
+   * indices created before 7.0.
+   */
+  routingNumShards?: number;
+  /** index.routing_partition_size (default: 1) */
+  routingPartitionSize?: number;
+  /** Document _id; required when routingPartitionSize is greater than 1 */
+  id?: string;
+}
+
+/**
+ * Murmur3HashFunction.hash() from Elasticsearch: MurmurHash3 x86_32 with
+ * seed 0 over the string's UTF-16 code units, as a signed 32-bit integer.
+ */
+export function elasticsearchHash(routing: string): number {
+  const length = encodeString(routing, 'utf16le');
+  return compute(encodedBytes(), 0, length, 0) | 0;
+}
+
+/**
+ * Default index.number_of_routing_shards: the largest numberOfShards * 2^n
+ * not above 1024, allowing at least one split.
+ */
+function defaultRoutingNumShards(numberOfShards: number): number {
+  const log2NumShards = 32 - Math.clz32(numberOfShards - 1);
+  return numberOfShards * 2 ** Math.max(1, 10 - log2NumShards);
+}
+
+function floorMod(x: number, y: number): number {
+  return ((x % y) + y) % y;
+}
+
+function checkCount(name: string, value: number): void {
+  if (!Number.isInteger(value) || value < 1) {
+    throw new RangeError(`Invalid ${name}: ${value}`);
+  }
+}
+
+/**
+ * Shard that Elasticsearch or OpenSearch routes a document to. routing is
+ * the document's _routing value, or its _id when no custom routing is used.
+ */
+export function elasticsearchShard(
+  routing: string,
+  options: ShardRoutingOptions
+): number {
+  const { numberOfShards, id } = options;
+  checkCount('numberOfShards', numberOfShards);
+  const routingNumShards =
+    options.routingNumShards ?? defaultRoutingNumShards(numberOfShards);
+  const partitionSize = options.routingPartitionSize ?? 1;
+  checkCount('routingNumShards', routingNumShards);
+  checkCount('routingPartitionSize', partitionSize);
+  if (routingNumShards % numberOfShards !== 0) {
+    throw new RangeError(
+      `routingNumShards ${routingNumShards} is not a multiple of numberOfShards ${numberOfShards}`
+    );
+  }
+  if (partitionSize > 1 && partitionSize >= routingNumShards) {
+    throw new RangeError(
+      `routingPartitionSize ${partitionSize} must be less than routingNumShards ${routingNumShards}`
+    );
+  }
+
+  let partitionOffset = 0;
+  if (partitionSize > 1) {
+    if (id === undefined) {
+      throw new TypeError('id is required when routingPartitionSize > 1');
+    }
+    partitionOffset = floorMod(elasticsearchHash(id), partitionSize);
+  }
+
+  // Java int addition wraps
+  const hash = (elasticsearchHash(routing) + partitionOffset) | 0;
+  const routingFactor = routingNumShards / numberOfShards;
+  return Math.floor(floorMod(hash, routingNumShards) / routingFactor);
+}
@@ -1,15 +1,243 @@
-import type { HashInput } from './types.ts';
+import type { HashInput, StringEncoding } from './types.ts';
 
 const encoder = new TextEncoder();
 
+// Strings longer than this are encoded into a fresh buffer instead of
+// growing the scratch buffer without bound.
+const MAX_SCRATCH_SIZE = 1 << 16;
+
+// Below this length a JS copy loop beats the native encodeInto() call
+const ASCII_LOOP_MAX = 64;
+
+// A high surrogate without a low one after it, or a low one without a high
+// one before it
+const LONE_SURROGATE =
+  /[\uD800-\uDBFF](?![\uDC00-\uDFFF])|(?<![\uD800-\uDBFF])[\uDC00-\uDFFF]/g;
+
+let scratch = new Uint8Array(256);
+let encoded = scratch;
+
+/**
+ * Point encoded at a buffer of at least size bytes: the shared scratch
+ * buffer, grown if needed, or a fresh buffer for very long strings.
+ */
+function reserve(size: number): Uint8Array {
+  if (size > MAX_SCRATCH_SIZE) {
+    encoded = new Uint8Array(size);
+    return encoded;
+  }
+  if (size > scratch.length) {
+    const grown = Math.max(size, scratch.length * 2);
+    scratch = new Uint8Array(Math.min(grown, MAX_SCRATCH_SIZE));
+  }
+  encoded = scratch;
+  return encoded;
+}
+
+/**
+ * Encode a string and return its byte length. The bytes are available
+ * from encodedBytes() until the next call; short strings reuse a shared
+ * scratch buffer so no allocation happens per call.
+ */
+export function encodeString(
+  input: string,
+  encoding: StringEncoding = 'utf8'
+): number {
+  const len = input.length;
+
+  if (encoding === 'utf16le') {
+    const buffer = reserve(len * 2);
+    for (let i = 0; i < len; i++) {
+      const c = input.charCodeAt(i);
+      buffer[i * 2] = c;
+      buffer[i * 2 + 1] = c >>> 8;
+    }
+    return len * 2;
+  }
+
+  if (encoding === 'latin1') {
+    // Uint8Array stores keep the low byte of each code unit
+    const buffer = reserve(len);
+    for (let i = 0; i < len; i++) {
+      buffer[i] = input.charCodeAt(i);
+    }
+    return len;
+  }
+
+  if (encoding === 'utf8-java') {
+    // Same length: each lone surrogate becomes one '?'
+    input = input.replace(LONE_SURROGATE, '?');
+  }
+
+  // UTF-8 needs at most 3 bytes per UTF-16 code unit
+  if (len * 3 > MAX_SCRATCH_SIZE) {
+    encoded = encoder.encode(input);
+    return encoded.length;
+  }
+  const buffer = reserve(len * 3);
+
+  if (len > ASCII_LOOP_MAX) {
+    return encoder.encodeInto(input, buffer).written;
+  }
+
+  // ASCII fast path: copy code units directly
+  for (let i = 0; i < len; i++) {
+    const c = input.charCodeAt(i);
+    if (c > 0x7f) {
+      return encoder.encodeInto(input, buffer).written;
+    }
+    buffer[i] = c;
+  }
+  return len;
+}
+
 /**
- * Convert string or Uint8Array to Uint8Array
+ * Buffer holding the bytes written by the last encodeString() call
  */
-export function toBytes(input: HashInput): Uint8Array {
+export function encodedBytes(): Uint8Array {
+  return encoded;
+}
+
+/**
+ * Convert any hash input to Uint8Array. Binary inputs become a view of
+ * the same bytes without copying. For strings the result is a view of a
+ * shared buffer and is only valid until the next call.
+ */
+export function toBytes(
+  input: HashInput,
+  encoding: StringEncoding = 'utf8'
+): Uint8Array {
   if (input instanceof Uint8Array) {
     return input;
   }
-  return encoder.encode(input);
+  if (typeof input === 'string') {
+    const length = encodeString(input, encoding);
+    return encoded.subarray(0, length);
+  }
+  if (ArrayBuffer.isView(input)) {
+    return new Uint8Array(input.buffer, input.byteOffset, input.byteLength);
+  }
+  // Tag check so buffers from other realms (vm contexts, iframes) pass too
+  const tag = Object.prototype.toString.call(input);
+  if (tag === '[object ArrayBuffer]' || tag === '[object SharedArrayBuffer]') {
+    return new Uint8Array(input as ArrayBufferLike);
+  }
+  throw new TypeError(
+    `Cannot hash ${describe(input)}: expected a string, ArrayBuffer, ` +
+      'SharedArrayBuffer, TypedArray or DataView'
+  );
+}
+
+/**
+ * Short description of an unsupported input for error messages
+ */
+function describe(input: unknown): string {
+  if (input === null || input === undefined) {
+    return String(input);
+  }
+  if (typeof input !== 'object') {
+    return typeof input === 'function' ? 'a function' : `a ${typeof input}`;
+  }
+  if (typeof Blob !== 'undefined' && input instanceof Blob) {
+    return (
+      'a Blob synchronously (use hash32Async(), hash128Async() or ' +
+      'hash128x64Async())'
+    );
+  }
+  const name = Object.getPrototypeOf(input)?.constructor?.name;
+  return name && name !== 'Object' ? `a ${name}` : 'an object';
+}
+
+/**
+ * Join byte chunks into a single array of the given total length
+ */
+export function concatBytes(
+  chunks: readonly Uint8Array[],
+  length: number
+): Uint8Array {
+  if (chunks.length === 1) {
+    return chunks[0];
+  }
+  const joined = new Uint8Array(length);
+  let offset = 0;
+  for (const chunk of chunks) {
+    joined.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return joined;
+}
+
+/**
+ * Format 32-bit words as a zero-padded hex string
+ */
+export function wordsToHex(words: Uint32Array): string {
+  let hex = '';
+  for (let i = 0; i < words.length; i++) {
+    hex += ('00000000' + words[i].toString(16)).slice(-8);
+  }
+  return hex;
+}
+
+const BASE64 =
+  'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+const BASE64URL =
+  'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789-_';
+
+/**
+ * Format bytes as a lowercase hex string
+ */
+export function bytesToHex(bytes: Uint8Array): string {
+  let hex = '';
+  for (let i = 0; i < bytes.length; i++) {
+    hex += (bytes[i] < 16 ? '0' : '') + bytes[i].toString(16);
+  }
+  return hex;
+}
+
+/**
+ * Encode bytes as base64 (padded) or base64url (unpadded)
+ */
+export function bytesToBase64(bytes: Uint8Array, url: boolean): string {
+  const alphabet = url ? BASE64URL : BASE64;
+  let out = '';
+  let i = 0;
+  for (; i + 2 < bytes.length; i += 3) {
+    const n = (bytes[i] << 16) | (bytes[i + 1] << 8) | bytes[i + 2];
+    out +=
+      alphabet[n >>> 18] +
+      alphabet[(n >>> 12) & 63] +
+      alphabet[(n >>> 6) & 63] +
+      alphabet[n & 63];
+  }
+  const rest = bytes.length - i;
+  if (rest > 0) {
+    const n = (bytes[i] << 16) | (rest === 2 ? bytes[i + 1] << 8 : 0);
+    out += alphabet[n >>> 18] + alphabet[(n >>> 12) & 63];
+    out += rest === 2 ? alphabet[(n >>> 6) & 63] : url ? '' : '=';
+    out += url ? '' : '=';
+  }
+  return out;
+}
+
+/**
+ * Decode a base64 string
+ */
+export function base64ToBytes(base64: string): Uint8Array {
+  const alphabet = BASE64;
+  const clean = base64.replace(/=+$/, '');
+  const bytes = new Uint8Array((clean.length * 3) >>> 2);
+  let bits = 0;
+  let value = 0;
+  let offset = 0;
+  for (let i = 0; i < clean.length; i++) {
+    value = (value << 6) | alphabet.indexOf(clean[i]);
+    bits += 6;
+    if (bits >= 8) {
+      bits -= 8;
+      bytes[offset++] = (value >>> bits) & 0xff;
+    }
+  }
+  return bytes;
 }
 
 /**
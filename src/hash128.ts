@@ -1,5 +1,20 @@
-import type { HashInput, Hash128Options } from './types.ts';
-import { toBytes, hexToBigInt } from './encoding.ts';
+import type {
+  HashInput,
+  Hash128Options,
+  HashOutput,
+  ByteOrder,
+  StringEncoding,
+} from './types.ts';
+import {
+  toBytes,
+  encodeString,
+  encodedBytes,
+} from './encoding.ts';
+import { encodeState, decodeState } from './state.ts';
+import { formatDigest128, type Digest128 } from './output.ts';
+import { resolveOptions, type OutputOf } from './profiles.ts';
+import { wasmCore } from './backend.ts';
+import { checkSeed } from './seed.ts';
 
 // MurmurHash3 x86 128-bit constants
 const C1 = 0x239b961b;
@@ -34,21 +49,20 @@ function fmix(h: number): number {
 }
 
 /**
- * Compute MurmurHash3 x86 128-bit hash
+ * Mix complete 16-byte blocks into the four state lanes (updated in place)
  */
-function compute(bytes: Uint8Array, seed: number): string {
-  const len = bytes.length;
-  const blocks = len >>> 4; // len / 16
-
-  let h1 = seed;
-  let h2 = seed;
-  let h3 = seed;
-  let h4 = seed;
-
-  // Process 16-byte blocks
-  for (let i = 0; i < blocks; i++) {
-    const offset = i * 16;
+function mixBlocks(
+  h: number[],
+  bytes: Uint8Array,
+  offset: number,
+  blocks: number
+): void {
+  let h1 = h[0];
+  let h2 = h[1];
+  let h3 = h[2];
+  let h4 = h[3];
 
+  for (let i = 0; i < blocks; i++, offset += 16) {
     let k1 =
       bytes[offset] |
       (bytes[offset + 1] << 8) |
@@ -107,14 +121,35 @@ function compute(bytes: Uint8Array, seed: number): string {
     h4 = multiply(h4, 5) + 0x32ac3b17;
   }
 
-  // Process remaining bytes
-  const tailOffset = blocks * 16;
+  h[0] = h1;
+  h[1] = h2;
+  h[2] = h3;
+  h[3] = h4;
+}
+
+/**
+ * Mix the 0-15 byte tail and total length, then write the four 32-bit
+ * digest words to out. The state lanes are left untouched.
+ */
+function finalize(
+  h: number[],
+  bytes: Uint8Array,
+  tailOffset: number,
+  tailLength: number,
+  totalLength: number,
+  out: Uint32Array,
+  outOffset: number
+): void {
+  let h1 = h[0];
+  let h2 = h[1];
+  let h3 = h[2];
+  let h4 = h[3];
   let k1 = 0;
   let k2 = 0;
   let k3 = 0;
   let k4 = 0;
 
-  switch (len & 15) {
+  switch (tailLength) {
     case 15:
       k4 ^= bytes[tailOffset + 14] << 16;
     // fallthrough
@@ -178,10 +213,10 @@ function compute(bytes: Uint8Array, seed: number): string {
   }
 
   // Finalization
-  h1 ^= len;
-  h2 ^= len;
-  h3 ^= len;
-  h4 ^= len;
+  h1 ^= totalLength;
+  h2 ^= totalLength;
+  h3 ^= totalLength;
+  h4 ^= totalLength;
 
   h1 += h2;
   h1 += h3;
@@ -202,69 +237,210 @@ function compute(bytes: Uint8Array, seed: number): string {
   h3 += h1;
   h4 += h1;
 
-  // Convert to hex string
-  return (
-    ('00000000' + (h1 >>> 0).toString(16)).slice(-8) +
-    ('00000000' + (h2 >>> 0).toString(16)).slice(-8) +
-    ('00000000' + (h3 >>> 0).toString(16)).slice(-8) +
-    ('00000000' + (h4 >>> 0).toString(16)).slice(-8)
-  );
+  out[outOffset] = h1;
+  out[outOffset + 1] = h2;
+  out[outOffset + 2] = h3;
+  out[outOffset + 3] = h4;
+}
+
+// Reused digest words for one-shot hashing
+const words = new Uint32Array(4);
+
+/**
+ * Compute MurmurHash3 x86 128-bit hash of bytes[offset, offset + len)
+ * and write the four 32-bit digest words to out.
+ */
+export function compute(
+  bytes: Uint8Array,
+  offset: number,
+  len: number,
+  seed: number,
+  out: Uint32Array,
+  outOffset: number
+): void {
+  const blocks = len >>> 4; // len / 16
+  const h = [seed, seed, seed, seed];
+  mixBlocks(h, bytes, offset, blocks);
+  finalize(h, bytes, offset + blocks * 16, len & 15, len, out, outOffset);
 }
 
 /**
- * Compute MurmurHash3 x86 128-bit hash.
+ * Compute MurmurHash3 x86 128-bit hash. The return type follows the
+ * output and profile options: a hex string by default.
  */
+export function hash128<T extends Hash128Options = {}>(
+  input: HashInput,
+  options?: T
+): Digest128<OutputOf<T, 'x86_128', 'hex'>>;
 export function hash128(
   input: HashInput,
   options?: Hash128Options
-): string | bigint {
-  const seed = options?.seed ?? 0;
-  const hex = compute(toBytes(input), seed);
-
-  if (options?.output === 'bigint') {
-    return hexToBigInt(hex);
+): Digest128 {
+  const seed = checkSeed(options?.seed ?? 0);
+  const { output, byteOrder, encoding } = resolveOptions(
+    options,
+    'x86_128',
+    'hex'
+  );
+  const hash = wasmCore()?.hash128 ?? compute;
+  if (typeof input === 'string') {
+    const length = encodeString(input, encoding);
+    hash(encodedBytes(), 0, length, seed, words, 0);
+  } else {
+    const bytes = toBytes(input);
+    hash(bytes, 0, bytes.length, seed, words, 0);
   }
-  return hex;
+  return formatDigest128(words, 4, output, byteOrder);
 }
 
-/** Streaming hasher. Note: data is buffered until digest(), not processed incrementally. */
-export class Hash128Stream {
-  private chunks: Uint8Array[] = [];
+/**
+ * Streaming hasher. Complete 16-byte blocks are mixed as they arrive; only
+ * the 0-15 byte tail is carried between update() calls.
+ */
+export class Hash128Stream<O extends HashOutput = HashOutput> {
+  private readonly h: number[];
+  private readonly tail = new Uint8Array(16);
+  private tailLength = 0;
   private totalLength = 0;
   private readonly seed: number;
-  private readonly outputFormat: 'hex' | 'bigint';
+  private readonly outputFormat: O;
+  private readonly byteOrder: ByteOrder;
+  private readonly encoding: StringEncoding;
 
   constructor(options?: Hash128Options) {
-    this.seed = options?.seed ?? 0;
-    this.outputFormat = options?.output ?? 'hex';
+    const seed = checkSeed(options?.seed ?? 0);
+    this.seed = seed;
+    this.h = [seed, seed, seed, seed];
+    const resolved = resolveOptions(options, 'x86_128', 'hex');
+    this.outputFormat = resolved.output as O;
+    this.byteOrder = resolved.byteOrder;
+    this.encoding = resolved.encoding;
   }
 
-  update(input: HashInput): this {
-    const bytes = toBytes(input);
-    this.chunks.push(bytes);
-    this.totalLength += bytes.length;
-    return this;
+  /**
+   * Rebuild a stream from a blob produced by exportState().
+   * Throws if the blob is corrupt, truncated or from another algorithm.
+   */
+  static restore(state: Uint8Array): Hash128Stream {
+    const decoded = decodeState(state, 'x86_128');
+    const stream = new Hash128Stream<HashOutput>({
+      seed: decoded.seed,
+      output: decoded.output as HashOutput,
+      byteOrder: decoded.byteOrder,
+      encoding: decoded.encoding,
+    });
+    stream.h.splice(0, 4, ...decoded.lanes);
+    stream.tail.set(decoded.tail);
+    stream.tailLength = decoded.tail.length;
+    stream.totalLength = decoded.totalLength;
+    return stream;
   }
 
-  digest(): string | bigint {
-    const result = new Uint8Array(this.totalLength);
+  update(input: HashInput): this {
+    const bytes = toBytes(input, this.encoding);
+    const len = bytes.length;
     let offset = 0;
-    for (const chunk of this.chunks) {
-      result.set(chunk, offset);
-      offset += chunk.length;
+    this.totalLength += len;
+
+    // Complete the pending partial block first
+    if (this.tailLength > 0) {
+      while (this.tailLength < 16 && offset < len) {
+        this.tail[this.tailLength++] = bytes[offset++];
+      }
+      if (this.tailLength < 16) {
+        return this;
+      }
+      mixBlocks(this.h, this.tail, 0, 1);
+      this.tailLength = 0;
     }
-    const hex = compute(result, this.seed);
 
-    if (this.outputFormat === 'bigint') {
-      return hexToBigInt(hex);
+    const blocks = (len - offset) >>> 4;
+    mixBlocks(this.h, bytes, offset, blocks);
+    offset += blocks * 16;
+
+    // Carry the remainder to the next update() or digest()
+    while (offset < len) {
+      this.tail[this.tailLength++] = bytes[offset++];
     }
-    return hex;
+    return this;
+  }
+
+  /**
+   * Return the hash of everything written so far. The stream is not
+   * consumed: further update() calls continue from the same state.
+   */
+  digest(): Digest128<O> {
+    finalize(
+      this.h,
+      this.tail,
+      0,
+      this.tailLength,
+      this.totalLength,
+      words,
+      0
+    );
+    return formatDigest128(words, 4, this.outputFormat, this.byteOrder);
+  }
+
+  /**
+   * Fork the stream, e.g. to hash many suffixes after a shared prefix.
+   */
+  clone(): Hash128Stream<O> {
+    const copy = new Hash128Stream<O>({
+      seed: this.seed,
+      output: this.outputFormat,
+      byteOrder: this.byteOrder,
+      encoding: this.encoding,
+    });
+    copy.h.splice(0, 4, ...this.h);
+    copy.tail.set(this.tail);
+    copy.tailLength = this.tailLength;
+    copy.totalLength = this.totalLength;
+    return copy;
+  }
+
+  /**
+   * Discard all input, keeping the seed and output settings.
+   */
+  reset(): this {
+    this.h.fill(this.seed);
+    this.tailLength = 0;
+    this.totalLength = 0;
+    return this;
+  }
+
+  /**
+   * Serialize the in-progress state so hashing can resume later,
+   * possibly in another process, via restoreHash128().
+   */
+  exportState(): Uint8Array {
+    return encodeState({
+      algorithm: 'x86_128',
+      output: this.outputFormat,
+      byteOrder: this.byteOrder,
+      encoding: this.encoding,
+      seed: this.seed,
+      lanes: this.h,
+      tail: this.tail.subarray(0, this.tailLength),
+      totalLength: this.totalLength,
+    });
   }
 }
 
 /**
- * Create a streaming hasher for MurmurHash3 x86 128-bit.
+ * Create a streaming hasher for MurmurHash3 x86 128-bit. The stream's
+ * digest() type follows the output and profile options, like hash128().
  */
+export function createHash128<T extends Hash128Options = {}>(
+  options?: T
+): Hash128Stream<OutputOf<T, 'x86_128', 'hex'>>;
 export function createHash128(options?: Hash128Options): Hash128Stream {
   return new Hash128Stream(options);
 }
+
+/**
+ * Resume a MurmurHash3 x86 128-bit stream from exportState() output.
+ */
+export function restoreHash128(state: Uint8Array): Hash128Stream {
+  return Hash128Stream.restore(state);
+}
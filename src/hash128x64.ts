@@ -1,339 +1,519 @@
-import type { HashInput, Hash128Options } from './types.ts';
-import { toBytes, hexToBigInt } from './encoding.ts';
-
-// MurmurHash3 x64 128-bit constants (as pairs of 32-bit ints)
-const C1 = [0x87c37b91, 0x114253d5];
-const C2 = [0x4cf5ad43, 0x2745937f];
+import type {
+  HashInput,
+  Hash128x64Options,
+  Hash128x64Output,
+  ByteOrder,
+  StringEncoding,
+} from './types.ts';
+import {
+  toBytes,
+  encodeString,
+  encodedBytes,
+} from './encoding.ts';
+import { encodeState, decodeState } from './state.ts';
+import { formatDigest128, type Digest128 } from './output.ts';
+import { resolveOptions, type OutputOf } from './profiles.ts';
+import { wasmCore } from './backend.ts';
+import { splitSeed64 } from './seed.ts';
+
+// MurmurHash3 x64 128-bit constants, split into high and low 32-bit words
+const C1_HI = 0x87c37b91;
+const C1_LO = 0x114253d5;
+const C2_HI = 0x4cf5ad43;
+const C2_LO = 0x2745937f;
+
+// 64-bit values are carried as pairs of 32-bit locals. The helpers below
+// return the high word and leave the low word here, so the hot path never
+// allocates.
+let lo = 0;
 
 /**
- * 64-bit addition (as array of two 32-bit ints)
+ * 64-bit multiplication, truncated to 64 bits
  */
-function add64(a: number[], b: number[]): number[] {
-  const a0 = a[0] >>> 16,
-    a1 = a[0] & 0xffff,
-    a2 = a[1] >>> 16,
-    a3 = a[1] & 0xffff;
-  const b0 = b[0] >>> 16,
-    b1 = b[0] & 0xffff,
-    b2 = b[1] >>> 16,
-    b3 = b[1] & 0xffff;
-
-  let c0 = 0,
-    c1 = 0,
-    c2 = 0,
-    c3 = 0;
-
-  c3 += a3 + b3;
-  c2 += c3 >>> 16;
-  c3 &= 0xffff;
-
-  c2 += a2 + b2;
-  c1 += c2 >>> 16;
-  c2 &= 0xffff;
-
-  c1 += a1 + b1;
-  c0 += c1 >>> 16;
-  c1 &= 0xffff;
-
-  c0 += a0 + b0;
-  c0 &= 0xffff;
-
-  return [(c0 << 16) | c1, (c2 << 16) | c3];
+function mul64(ah: number, al: number, bh: number, bl: number): number {
+  const a0 = al & 0xffff;
+  const a1 = al >>> 16;
+  const b0 = bl & 0xffff;
+  const b1 = bl >>> 16;
+
+  // Full 32x32 -> 64-bit product of the low words
+  const p00 = a0 * b0;
+  const p01 = a0 * b1;
+  const p10 = a1 * b0;
+  const mid = (p00 >>> 16) + (p01 & 0xffff) + (p10 & 0xffff);
+  lo = (mid << 16) | (p00 & 0xffff);
+  const carry = a1 * b1 + (p01 >>> 16) + (p10 >>> 16) + (mid >>> 16);
+
+  // Cross terms only contribute to the high word
+  return (carry + Math.imul(al, bh) + Math.imul(ah, bl)) | 0;
 }
 
 /**
- * 64-bit multiplication (as array of two 32-bit ints)
+ * 64-bit addition
  */
-function multiply64(a: number[], b: number[]): number[] {
-  const a0 = a[0] >>> 16,
-    a1 = a[0] & 0xffff,
-    a2 = a[1] >>> 16,
-    a3 = a[1] & 0xffff;
-  const b0 = b[0] >>> 16,
-    b1 = b[0] & 0xffff,
-    b2 = b[1] >>> 16,
-    b3 = b[1] & 0xffff;
-
-  let c0 = 0,
-    c1 = 0,
-    c2 = 0,
-    c3 = 0;
-
-  c3 += a3 * b3;
-  c2 += c3 >>> 16;
-  c3 &= 0xffff;
-
-  c2 += a2 * b3;
-  c1 += c2 >>> 16;
-  c2 &= 0xffff;
-
-  c2 += a3 * b2;
-  c1 += c2 >>> 16;
-  c2 &= 0xffff;
-
-  c1 += a1 * b3;
-  c0 += c1 >>> 16;
-  c1 &= 0xffff;
-
-  c1 += a2 * b2;
-  c0 += c1 >>> 16;
-  c1 &= 0xffff;
-
-  c1 += a3 * b1;
-  c0 += c1 >>> 16;
-  c1 &= 0xffff;
-
-  c0 += a0 * b3 + a1 * b2 + a2 * b1 + a3 * b0;
-  c0 &= 0xffff;
-
-  return [(c0 << 16) | c1, (c2 << 16) | c3];
+function add64(ah: number, al: number, bh: number, bl: number): number {
+  const sum = (al >>> 0) + (bl >>> 0);
+  lo = sum | 0;
+  return (ah + bh + (sum > 0xffffffff ? 1 : 0)) | 0;
 }
 
 /**
- * 64-bit rotate left
+ * 64-bit rotate left by n (0 < n < 32)
  */
-function rotl64(m: number[], n: number): number[] {
-  n %= 64;
-  if (n === 32) {
-    return [m[1], m[0]];
-  } else if (n < 32) {
-    return [
-      (m[0] << n) | (m[1] >>> (32 - n)),
-      (m[1] << n) | (m[0] >>> (32 - n)),
-    ];
-  } else {
-    n -= 32;
-    return [
-      (m[1] << n) | (m[0] >>> (32 - n)),
-      (m[0] << n) | (m[1] >>> (32 - n)),
-    ];
-  }
+function rotl64(h: number, l: number, n: number): number {
+  lo = (l << n) | (h >>> (32 - n));
+  return (h << n) | (l >>> (32 - n));
 }
 
 /**
- * 64-bit left shift
+ * Final mix function for 64-bit
  */
-function lshift64(m: number[], n: number): number[] {
-  n %= 64;
-  if (n === 0) {
-    return m;
-  } else if (n < 32) {
-    return [(m[0] << n) | (m[1] >>> (32 - n)), m[1] << n];
-  } else {
-    return [m[1] << (n - 32), 0];
-  }
+function fmix64(h: number, l: number): number {
+  l ^= h >>> 1; // h ^= h >>> 33
+  h = mul64(h, l, 0xff51afd7, 0xed558ccd);
+  l = lo ^ (h >>> 1);
+  h = mul64(h, l, 0xc4ceb9fe, 0x1a85ec53);
+  lo ^= h >>> 1;
+  return h;
 }
 
 /**
- * 64-bit XOR
+ * Read a little-endian 32-bit word
  */
-function xor64(a: number[], b: number[]): number[] {
-  return [a[0] ^ b[0], a[1] ^ b[1]];
+function read32(bytes: Uint8Array, offset: number): number {
+  return (
+    bytes[offset] |
+    (bytes[offset + 1] << 8) |
+    (bytes[offset + 2] << 16) |
+    (bytes[offset + 3] << 24)
+  );
 }
 
 /**
- * Final mix function for 64-bit
+ * Mix complete 16-byte blocks into the state lanes (updated in place).
+ * Lanes are stored as [h1 high, h1 low, h2 high, h2 low].
  */
-function fmix64(h: number[]): number[] {
-  h = xor64(h, [0, h[0] >>> 1]);
-  h = multiply64(h, [0xff51afd7, 0xed558ccd]);
-  h = xor64(h, [0, h[0] >>> 1]);
-  h = multiply64(h, [0xc4ceb9fe, 0x1a85ec53]);
-  h = xor64(h, [0, h[0] >>> 1]);
-  return h;
+function mixBlocks(
+  h: number[],
+  bytes: Uint8Array,
+  offset: number,
+  blocks: number
+): void {
+  let h1h = h[0];
+  let h1l = h[1];
+  let h2h = h[2];
+  let h2l = h[3];
+  let k1h: number, k1l: number, k2h: number, k2l: number;
+
+  for (let i = 0; i < blocks; i++, offset += 16) {
+    k1l = read32(bytes, offset);
+    k1h = read32(bytes, offset + 4);
+    k2l = read32(bytes, offset + 8);
+    k2h = read32(bytes, offset + 12);
+
+    k1h = mul64(k1h, k1l, C1_HI, C1_LO);
+    k1h = rotl64(k1h, lo, 31);
+    k1h = mul64(k1h, lo, C2_HI, C2_LO);
+    h1h ^= k1h;
+    h1l ^= lo;
+
+    // rotl 27, then h1 += h2
+    h1h = rotl64(h1h, h1l, 27);
+    h1h = add64(h1h, lo, h2h, h2l);
+    h1h = mul64(h1h, lo, 0, 5);
+    h1h = add64(h1h, lo, 0, 0x52dce729);
+    h1l = lo;
+
+    // rotl 33 is a word swap followed by rotl 1
+    k2h = mul64(k2h, k2l, C2_HI, C2_LO);
+    k2h = rotl64(lo, k2h, 1);
+    k2h = mul64(k2h, lo, C1_HI, C1_LO);
+    h2h ^= k2h;
+    h2l ^= lo;
+
+    h2h = rotl64(h2h, h2l, 31);
+    h2h = add64(h2h, lo, h1h, h1l);
+    h2h = mul64(h2h, lo, 0, 5);
+    h2h = add64(h2h, lo, 0, 0x38495ab5);
+    h2l = lo;
+  }
+
+  h[0] = h1h;
+  h[1] = h1l;
+  h[2] = h2h;
+  h[3] = h2l;
 }
 
 /**
- * Compute MurmurHash3 x64 128-bit hash
+ * Bits that sign-extending bytes[offset, offset + count) would add to the
+ * little-endian 64-bit word they are read into. Returns the high word and
+ * leaves the low word in lo.
  */
-function compute(bytes: Uint8Array, seed: number): string {
-  const len = bytes.length;
-  const blocks = len >>> 4; // len / 16
-
-  let h1: number[] = [0, seed];
-  let h2: number[] = [0, seed];
-
-  // Process 16-byte blocks
-  for (let i = 0; i < blocks; i++) {
-    const offset = i * 16;
-
-    let k1: number[] = [
-      bytes[offset + 4] |
-        (bytes[offset + 5] << 8) |
-        (bytes[offset + 6] << 16) |
-        (bytes[offset + 7] << 24),
-      bytes[offset] |
-        (bytes[offset + 1] << 8) |
-        (bytes[offset + 2] << 16) |
-        (bytes[offset + 3] << 24),
-    ];
-
-    let k2: number[] = [
-      bytes[offset + 12] |
-        (bytes[offset + 13] << 8) |
-        (bytes[offset + 14] << 16) |
-        (bytes[offset + 15] << 24),
-      bytes[offset + 8] |
-        (bytes[offset + 9] << 8) |
-        (bytes[offset + 10] << 16) |
-        (bytes[offset + 11] << 24),
-    ];
-
-    k1 = multiply64(k1, C1);
-    k1 = rotl64(k1, 31);
-    k1 = multiply64(k1, C2);
-    h1 = xor64(h1, k1);
-
-    h1 = rotl64(h1, 27);
-    h1 = add64(h1, h2);
-    h1 = add64(multiply64(h1, [0, 5]), [0, 0x52dce729]);
-
-    k2 = multiply64(k2, C2);
-    k2 = rotl64(k2, 33);
-    k2 = multiply64(k2, C1);
-    h2 = xor64(h2, k2);
-
-    h2 = rotl64(h2, 31);
-    h2 = add64(h2, h1);
-    h2 = add64(multiply64(h2, [0, 5]), [0, 0x38495ab5]);
+function signBits(bytes: Uint8Array, offset: number, count: number): number {
+  let high = 0;
+  let low = 0;
+  for (let i = 0; i < count; i++) {
+    if (bytes[offset + i] & 0x80) {
+      const shift = i * 8 + 8;
+      if (shift < 32) {
+        low ^= -1 << shift;
+        high ^= -1;
+      } else if (shift < 64) {
+        high ^= -1 << (shift - 32);
+      }
+    }
   }
+  lo = low;
+  return high;
+}
 
-  // Process remaining bytes
-  const tailOffset = blocks * 16;
-  let k1: number[] = [0, 0];
-  let k2: number[] = [0, 0];
-
-  switch (len & 15) {
+/**
+ * Mix the 0-15 byte tail and total length, then write the four 32-bit
+ * digest words to out. The state lanes are left untouched. With
+ * signedTail, tail bytes are sign-extended as Java's (long) byte cast does.
+ */
+function finalize(
+  h: number[],
+  bytes: Uint8Array,
+  tailOffset: number,
+  tailLength: number,
+  totalLength: number,
+  out: Uint32Array,
+  outOffset: number,
+  signedTail: boolean = false
+): void {
+  let h1h = h[0];
+  let h1l = h[1];
+  let h2h = h[2];
+  let h2l = h[3];
+  let k1h = 0;
+  let k1l = 0;
+  let k2h = 0;
+  let k2l = 0;
+
+  switch (tailLength) {
     case 15:
-      k2 = xor64(k2, lshift64([0, bytes[tailOffset + 14]], 48));
+      k2h ^= bytes[tailOffset + 14] << 16;
     // fallthrough
     case 14:
-      k2 = xor64(k2, lshift64([0, bytes[tailOffset + 13]], 40));
+      k2h ^= bytes[tailOffset + 13] << 8;
     // fallthrough
     case 13:
-      k2 = xor64(k2, lshift64([0, bytes[tailOffset + 12]], 32));
+      k2h ^= bytes[tailOffset + 12];
     // fallthrough
     case 12:
-      k2 = xor64(k2, lshift64([0, bytes[tailOffset + 11]], 24));
+      k2l ^= bytes[tailOffset + 11] << 24;
     // fallthrough
     case 11:
-      k2 = xor64(k2, lshift64([0, bytes[tailOffset + 10]], 16));
+      k2l ^= bytes[tailOffset + 10] << 16;
     // fallthrough
     case 10:
-      k2 = xor64(k2, lshift64([0, bytes[tailOffset + 9]], 8));
+      k2l ^= bytes[tailOffset + 9] << 8;
     // fallthrough
     case 9:
-      k2 = xor64(k2, [0, bytes[tailOffset + 8]]);
-      k2 = multiply64(k2, C2);
-      k2 = rotl64(k2, 33);
-      k2 = multiply64(k2, C1);
-      h2 = xor64(h2, k2);
+      k2l ^= bytes[tailOffset + 8];
+      if (signedTail) {
+        k2h ^= signBits(bytes, tailOffset + 8, tailLength - 8);
+        k2l ^= lo;
+      }
+      k2h = mul64(k2h, k2l, C2_HI, C2_LO);
+      k2h = rotl64(lo, k2h, 1);
+      k2h = mul64(k2h, lo, C1_HI, C1_LO);
+      h2h ^= k2h;
+      h2l ^= lo;
     // fallthrough
     case 8:
-      k1 = xor64(k1, lshift64([0, bytes[tailOffset + 7]], 56));
+      k1h ^= bytes[tailOffset + 7] << 24;
     // fallthrough
     case 7:
-      k1 = xor64(k1, lshift64([0, bytes[tailOffset + 6]], 48));
+      k1h ^= bytes[tailOffset + 6] << 16;
     // fallthrough
     case 6:
-      k1 = xor64(k1, lshift64([0, bytes[tailOffset + 5]], 40));
+      k1h ^= bytes[tailOffset + 5] << 8;
     // fallthrough
     case 5:
-      k1 = xor64(k1, lshift64([0, bytes[tailOffset + 4]], 32));
+      k1h ^= bytes[tailOffset + 4];
     // fallthrough
     case 4:
-      k1 = xor64(k1, lshift64([0, bytes[tailOffset + 3]], 24));
+      k1l ^= bytes[tailOffset + 3] << 24;
     // fallthrough
     case 3:
-      k1 = xor64(k1, lshift64([0, bytes[tailOffset + 2]], 16));
+      k1l ^= bytes[tailOffset + 2] << 16;
     // fallthrough
     case 2:
-      k1 = xor64(k1, lshift64([0, bytes[tailOffset + 1]], 8));
+      k1l ^= bytes[tailOffset + 1] << 8;
     // fallthrough
     case 1:
-      k1 = xor64(k1, [0, bytes[tailOffset]]);
-      k1 = multiply64(k1, C1);
-      k1 = rotl64(k1, 31);
-      k1 = multiply64(k1, C2);
-      h1 = xor64(h1, k1);
+      k1l ^= bytes[tailOffset];
+      if (signedTail) {
+        k1h ^= signBits(bytes, tailOffset, Math.min(tailLength, 8));
+        k1l ^= lo;
+      }
+      k1h = mul64(k1h, k1l, C1_HI, C1_LO);
+      k1h = rotl64(k1h, lo, 31);
+      k1h = mul64(k1h, lo, C2_HI, C2_LO);
+      h1h ^= k1h;
+      h1l ^= lo;
   }
 
-  // Finalization
-  h1 = xor64(h1, [0, len]);
-  h2 = xor64(h2, [0, len]);
-
-  h1 = add64(h1, h2);
-  h2 = add64(h2, h1);
+  // Finalization. Length is mixed as a full 64-bit value so multi-GB
+  // streams stay correct.
+  const lenHi = Math.floor(totalLength / 0x100000000);
+  const lenLo = totalLength >>> 0;
+  h1h ^= lenHi;
+  h1l ^= lenLo;
+  h2h ^= lenHi;
+  h2l ^= lenLo;
+
+  h1h = add64(h1h, h1l, h2h, h2l);
+  h1l = lo;
+  h2h = add64(h2h, h2l, h1h, h1l);
+  h2l = lo;
+
+  h1h = fmix64(h1h, h1l);
+  h1l = lo;
+  h2h = fmix64(h2h, h2l);
+  h2l = lo;
+
+  h1h = add64(h1h, h1l, h2h, h2l);
+  h1l = lo;
+  h2h = add64(h2h, h2l, h1h, h1l);
+  h2l = lo;
+
+  out[outOffset] = h1h;
+  out[outOffset + 1] = h1l;
+  out[outOffset + 2] = h2h;
+  out[outOffset + 3] = h2l;
+}
 
-  h1 = fmix64(h1);
-  h2 = fmix64(h2);
+// Reused digest words for one-shot hashing
+const words = new Uint32Array(4);
 
-  h1 = add64(h1, h2);
-  h2 = add64(h2, h1);
+/**
+ * Compute MurmurHash3 x64 128-bit hash of bytes[offset, offset + len)
+ * and write the four 32-bit digest words to out.
+ */
+export function compute(
+  bytes: Uint8Array,
+  offset: number,
+  len: number,
+  seedHi: number,
+  seedLo: number,
+  out: Uint32Array,
+  outOffset: number
+): void {
+  const blocks = len >>> 4; // len / 16
+  const h = [seedHi, seedLo, seedHi, seedLo];
+  mixBlocks(h, bytes, offset, blocks);
+  finalize(h, bytes, offset + blocks * 16, len & 15, len, out, outOffset);
+}
 
-  // Convert to hex string
-  return (
-    ('00000000' + (h1[0] >>> 0).toString(16)).slice(-8) +
-    ('00000000' + (h1[1] >>> 0).toString(16)).slice(-8) +
-    ('00000000' + (h2[0] >>> 0).toString(16)).slice(-8) +
-    ('00000000' + (h2[1] >>> 0).toString(16)).slice(-8)
-  );
+/**
+ * compute() with Cassandra's tail handling: MurmurHash.hash3_x64_128 in
+ * Cassandra sign-extends each tail byte, so inputs whose last len % 16
+ * bytes include values >= 0x80 hash differently from the reference.
+ */
+export function computeSignedTail(
+  bytes: Uint8Array,
+  offset: number,
+  len: number,
+  seedHi: number,
+  seedLo: number,
+  out: Uint32Array,
+  outOffset: number
+): void {
+  const blocks = len >>> 4;
+  const h = [seedHi, seedLo, seedHi, seedLo];
+  mixBlocks(h, bytes, offset, blocks);
+  const tailOffset = offset + blocks * 16;
+  finalize(h, bytes, tailOffset, len & 15, len, out, outOffset, true);
 }
 
 /**
- * Compute MurmurHash3 x64 128-bit hash.
+ * Compute MurmurHash3 x64 128-bit hash. The return type follows the
+ * output and profile options: a hex string by default.
  */
+export function hash128x64<T extends Hash128x64Options = {}>(
+  input: HashInput,
+  options?: T
+): Digest128<OutputOf<T, 'x64_128', 'hex'>>;
 export function hash128x64(
   input: HashInput,
-  options?: Hash128Options
-): string | bigint {
-  const seed = options?.seed ?? 0;
-  const hex = compute(toBytes(input), seed);
-
-  if (options?.output === 'bigint') {
-    return hexToBigInt(hex);
+  options?: Hash128x64Options
+): Digest128 {
+  const [seedHi, seedLo] = splitSeed64(options?.seed ?? 0);
+  const { output, byteOrder, encoding } = resolveOptions(
+    options,
+    'x64_128',
+    'hex'
+  );
+  const hash = wasmCore()?.hash128x64 ?? compute;
+  if (typeof input === 'string') {
+    const length = encodeString(input, encoding);
+    hash(encodedBytes(), 0, length, seedHi, seedLo, words, 0);
+  } else {
+    const bytes = toBytes(input);
+    hash(bytes, 0, bytes.length, seedHi, seedLo, words, 0);
   }
-  return hex;
+  return formatDigest128(words, 8, output, byteOrder);
 }
 
-/** Streaming hasher. Note: data is buffered until digest(), not processed incrementally. */
-export class Hash128x64Stream {
-  private chunks: Uint8Array[] = [];
+/**
+ * Streaming hasher. Complete 16-byte blocks are mixed as they arrive; only
+ * the 0-15 byte tail is carried between update() calls.
+ */
+export class Hash128x64Stream<O extends Hash128x64Output = Hash128x64Output> {
+  private readonly h: number[];
+  private readonly tail = new Uint8Array(16);
+  private tailLength = 0;
   private totalLength = 0;
-  private readonly seed: number;
-  private readonly outputFormat: 'hex' | 'bigint';
-
-  constructor(options?: Hash128Options) {
+  private readonly seed: number | bigint;
+  private readonly seedHi: number;
+  private readonly seedLo: number;
+  private readonly outputFormat: O;
+  private readonly byteOrder: ByteOrder;
+  private readonly encoding: StringEncoding;
+
+  constructor(options?: Hash128x64Options) {
     this.seed = options?.seed ?? 0;
-    this.outputFormat = options?.output ?? 'hex';
+    [this.seedHi, this.seedLo] = splitSeed64(this.seed);
+    this.h = [this.seedHi, this.seedLo, this.seedHi, this.seedLo];
+    const resolved = resolveOptions(options, 'x64_128', 'hex');
+    this.outputFormat = resolved.output as O;
+    this.byteOrder = resolved.byteOrder;
+    this.encoding = resolved.encoding;
   }
 
-  update(input: HashInput): this {
-    const bytes = toBytes(input);
-    this.chunks.push(bytes);
-    this.totalLength += bytes.length;
-    return this;
+  /**
+   * Rebuild a stream from a blob produced by exportState().
+   * Throws if the blob is corrupt, truncated or from another algorithm.
+   */
+  static restore(state: Uint8Array): Hash128x64Stream {
+    const decoded = decodeState(state, 'x64_128');
+    const stream = new Hash128x64Stream<Hash128x64Output>({
+      seed: decoded.seedHigh
+        ? (BigInt(decoded.seedHigh) << 32n) | BigInt(decoded.seed)
+        : decoded.seed,
+      output: decoded.output as Hash128x64Output,
+      byteOrder: decoded.byteOrder,
+      encoding: decoded.encoding,
+    });
+    stream.h.splice(0, 4, ...decoded.lanes);
+    stream.tail.set(decoded.tail);
+    stream.tailLength = decoded.tail.length;
+    stream.totalLength = decoded.totalLength;
+    return stream;
   }
 
-  digest(): string | bigint {
-    const result = new Uint8Array(this.totalLength);
+  update(input: HashInput): this {
+    const bytes = toBytes(input, this.encoding);
+    const len = bytes.length;
     let offset = 0;
-    for (const chunk of this.chunks) {
-      result.set(chunk, offset);
-      offset += chunk.length;
+    this.totalLength += len;
+
+    // Complete the pending partial block first
+    if (this.tailLength > 0) {
+      while (this.tailLength < 16 && offset < len) {
+        this.tail[this.tailLength++] = bytes[offset++];
+      }
+      if (this.tailLength < 16) {
+        return this;
+      }
+      mixBlocks(this.h, this.tail, 0, 1);
+      this.tailLength = 0;
     }
-    const hex = compute(result, this.seed);
 
-    if (this.outputFormat === 'bigint') {
-      return hexToBigInt(hex);
+    const blocks = (len - offset) >>> 4;
+    mixBlocks(this.h, bytes, offset, blocks);
+    offset += blocks * 16;
+
+    // Carry the remainder to the next update() or digest()
+    while (offset < len) {
+      this.tail[this.tailLength++] = bytes[offset++];
     }
-    return hex;
+    return this;
+  }
+
+  /**
+   * Return the hash of everything written so far. The stream is not
+   * consumed: further update() calls continue from the same state.
+   */
+  digest(): Digest128<O> {
+    finalize(
+      this.h,
+      this.tail,
+      0,
+      this.tailLength,
+      this.totalLength,
+      words,
+      0
+    );
+    return formatDigest128(words, 8, this.outputFormat, this.byteOrder);
+  }
+
+  /**
+   * Fork the stream, e.g. to hash many suffixes after a shared prefix.
+   */
+  clone(): Hash128x64Stream<O> {
+    const copy = new Hash128x64Stream<O>({
+      seed: this.seed,
+      output: this.outputFormat,
+      byteOrder: this.byteOrder,
+      encoding: this.encoding,
+    });
+    copy.h.splice(0, 4, ...this.h);
+    copy.tail.set(this.tail);
+    copy.tailLength = this.tailLength;
+    copy.totalLength = this.totalLength;
+    return copy;
+  }
+
+  /**
+   * Discard all input, keeping the seed and output settings.
+   */
+  reset(): this {
+    this.h[0] = this.seedHi;
+    this.h[1] = this.seedLo;
+    this.h[2] = this.seedHi;
+    this.h[3] = this.seedLo;
+    this.tailLength = 0;
+    this.totalLength = 0;
+    return this;
+  }
+
+  /**
+   * Serialize the in-progress state so hashing can resume later,
+   * possibly in another process, via restoreHash128x64().
+   */
+  exportState(): Uint8Array {
+    return encodeState({
+      algorithm: 'x64_128',
+      output: this.outputFormat,
+      byteOrder: this.byteOrder,
+      encoding: this.encoding,
+      seed: this.seedLo,
+      seedHigh: this.seedHi,
+      lanes: this.h,
+      tail: this.tail.subarray(0, this.tailLength),
+      totalLength: this.totalLength,
+    });
   }
 }
 
 /**
- * Create a streaming hasher for MurmurHash3 x64 128-bit.
+ * Create a streaming hasher for MurmurHash3 x64 128-bit. The stream's
+ * digest() type follows the output and profile options, like hash128x64().
  */
-export function createHash128x64(options?: Hash128Options): Hash128x64Stream {
+export function createHash128x64<T extends Hash128x64Options = {}>(
+  options?: T
+): Hash128x64Stream<OutputOf<T, 'x64_128', 'hex'>>;
+export function createHash128x64(options?: Hash128x64Options): Hash128x64Stream {
   return new Hash128x64Stream(options);
 }
+
+/**
+ * Resume a MurmurHash3 x64 128-bit stream from exportState() output.
+ */
+export function restoreHash128x64(state: Uint8Array): Hash128x64Stream {
+  return Hash128x64Stream.restore(state);
+}
@@ -1,5 +1,20 @@
-import type { HashInput } from './types.ts';
-import { toBytes } from './encoding.ts';
+import type {
+  HashInput,
+  Hash32Options,
+  Hash32Output,
+  ByteOrder,
+  StringEncoding,
+} from './types.ts';
+import {
+  toBytes,
+  encodeString,
+  encodedBytes,
+} from './encoding.ts';
+import { encodeState, decodeState } from './state.ts';
+import { formatDigest32, type Digest32 } from './output.ts';
+import { resolveOptions, type OutputOf } from './profiles.ts';
+import { wasmCore } from './backend.ts';
+import { checkSeed } from './seed.ts';
 
 // MurmurHash3 constants
 const C1 = 0xcc9e2d51;
@@ -32,16 +47,15 @@ function fmix(h: number): number {
 }
 
 /**
- * Compute MurmurHash3 x86 32-bit hash
+ * Mix complete 4-byte blocks into the running hash state
  */
-function compute(bytes: Uint8Array, seed: number): number {
-  const len = bytes.length;
-  const blocks = len >>> 2; // len / 4
-  let h1 = seed;
-
-  // Process 4-byte blocks
-  for (let i = 0; i < blocks; i++) {
-    const offset = i * 4;
+export function mixBlocks(
+  h1: number,
+  bytes: Uint8Array,
+  offset: number,
+  blocks: number
+): number {
+  for (let i = 0; i < blocks; i++, offset += 4) {
     let k1 =
       bytes[offset] |
       (bytes[offset + 1] << 8) |
@@ -56,12 +70,22 @@ function compute(bytes: Uint8Array, seed: number): number {
     h1 = rotl(h1, 13);
     h1 = multiply(h1, 5) + 0xe6546b64;
   }
+  return h1;
+}
 
-  // Process remaining bytes
-  const tailOffset = blocks * 4;
+/**
+ * Mix the 0-3 byte tail and total length, then finalize
+ */
+export function finalize(
+  h1: number,
+  bytes: Uint8Array,
+  tailOffset: number,
+  tailLength: number,
+  totalLength: number
+): number {
   let k1 = 0;
 
-  switch (len & 3) {
+  switch (tailLength) {
     case 3:
       k1 ^= bytes[tailOffset + 2] << 16;
     // fallthrough
@@ -77,50 +101,218 @@ function compute(bytes: Uint8Array, seed: number): number {
   }
 
   // Finalization
-  h1 ^= len;
+  h1 ^= totalLength;
   h1 = fmix(h1);
 
   return h1 >>> 0; // Convert to unsigned
 }
 
 /**
- * Compute MurmurHash3 x86 32-bit hash.
+ * Compute MurmurHash3 x86 32-bit hash of bytes[offset, offset + len)
+ */
+export function compute(
+  bytes: Uint8Array,
+  offset: number,
+  len: number,
+  seed: number
+): number {
+  const blocks = len >>> 2; // len / 4
+  const h1 = mixBlocks(seed, bytes, offset, blocks);
+  return finalize(h1, bytes, offset + blocks * 4, len & 3, len);
+}
+
+/**
+ * Compute MurmurHash3 x86 32-bit hash. With options, the return type
+ * follows the output and profile options.
  */
-export function hash32(input: HashInput, seed: number = 0): number {
-  return compute(toBytes(input), seed);
+export function hash32(input: HashInput, seed?: number): number;
+export function hash32<T extends Hash32Options>(
+  input: HashInput,
+  options: T
+): Digest32<OutputOf<T, 'x86_32', 'unsigned'>>;
+export function hash32(
+  input: HashInput,
+  seedOrOptions: number | Hash32Options = 0
+): Digest32 {
+  const hash = wasmCore()?.hash32 ?? compute;
+  if (typeof seedOrOptions === 'number') {
+    checkSeed(seedOrOptions);
+    if (typeof input === 'string') {
+      const length = encodeString(input);
+      return hash(encodedBytes(), 0, length, seedOrOptions);
+    }
+    const bytes = toBytes(input);
+    return hash(bytes, 0, bytes.length, seedOrOptions);
+  }
+
+  const seed = checkSeed(seedOrOptions.seed ?? 0);
+  const { output, byteOrder, encoding } = resolveOptions(
+    seedOrOptions,
+    'x86_32',
+    'unsigned'
+  );
+  let h: number;
+  if (typeof input === 'string') {
+    const length = encodeString(input, encoding);
+    h = hash(encodedBytes(), 0, length, seed);
+  } else {
+    const bytes = toBytes(input);
+    h = hash(bytes, 0, bytes.length, seed);
+  }
+  return formatDigest32(h, output, byteOrder);
 }
 
-/** Streaming hasher. Note: data is buffered until digest(), not processed incrementally. */
-export class Hash32Stream {
-  private chunks: Uint8Array[] = [];
+/**
+ * Streaming hasher. Complete 4-byte blocks are mixed as they arrive; only
+ * the 0-3 byte tail is carried between update() calls.
+ */
+export class Hash32Stream<O extends Hash32Output = Hash32Output> {
+  private h1: number;
+  private readonly tail = new Uint8Array(4);
+  private tailLength = 0;
   private totalLength = 0;
   private readonly seed: number;
+  private readonly outputFormat: O;
+  private readonly byteOrder: ByteOrder;
+  private readonly encoding: StringEncoding;
 
-  constructor(seed: number = 0) {
-    this.seed = seed;
+  constructor(seedOrOptions: number | Hash32Options = 0) {
+    const options = typeof seedOrOptions === 'number' ? {} : seedOrOptions;
+    this.seed = checkSeed(
+      typeof seedOrOptions === 'number' ? seedOrOptions : (options.seed ?? 0)
+    );
+    const resolved = resolveOptions(options, 'x86_32', 'unsigned');
+    this.outputFormat = resolved.output as O;
+    this.byteOrder = resolved.byteOrder;
+    this.encoding = resolved.encoding;
+    this.h1 = this.seed;
   }
 
-  update(input: HashInput): this {
-    const bytes = toBytes(input);
-    this.chunks.push(bytes);
-    this.totalLength += bytes.length;
-    return this;
+  /**
+   * Rebuild a stream from a blob produced by exportState().
+   * Throws if the blob is corrupt, truncated or from another algorithm.
+   */
+  static restore(state: Uint8Array): Hash32Stream {
+    const decoded = decodeState(state, 'x86_32');
+    const stream = new Hash32Stream<Hash32Output>({
+      seed: decoded.seed,
+      output: decoded.output as Hash32Output,
+      byteOrder: decoded.byteOrder,
+      encoding: decoded.encoding,
+    });
+    stream.h1 = decoded.lanes[0];
+    stream.tail.set(decoded.tail);
+    stream.tailLength = decoded.tail.length;
+    stream.totalLength = decoded.totalLength;
+    return stream;
   }
 
-  digest(): number {
-    const result = new Uint8Array(this.totalLength);
+  update(input: HashInput): this {
+    const bytes = toBytes(input, this.encoding);
+    const len = bytes.length;
     let offset = 0;
-    for (const chunk of this.chunks) {
-      result.set(chunk, offset);
-      offset += chunk.length;
+    this.totalLength += len;
+
+    // Complete the pending partial block first
+    if (this.tailLength > 0) {
+      while (this.tailLength < 4 && offset < len) {
+        this.tail[this.tailLength++] = bytes[offset++];
+      }
+      if (this.tailLength < 4) {
+        return this;
+      }
+      this.h1 = mixBlocks(this.h1, this.tail, 0, 1);
+      this.tailLength = 0;
+    }
+
+    const blocks = (len - offset) >>> 2;
+    this.h1 = mixBlocks(this.h1, bytes, offset, blocks);
+    offset += blocks * 4;
+
+    // Carry the remainder to the next update() or digest()
+    while (offset < len) {
+      this.tail[this.tailLength++] = bytes[offset++];
     }
-    return compute(result, this.seed);
+    return this;
+  }
+
+  /**
+   * Return the hash of everything written so far. The stream is not
+   * consumed: further update() calls continue from the same state.
+   */
+  digest(): Digest32<O> {
+    const h = finalize(
+      this.h1,
+      this.tail,
+      0,
+      this.tailLength,
+      this.totalLength
+    );
+    return formatDigest32(h, this.outputFormat, this.byteOrder);
+  }
+
+  /**
+   * Fork the stream, e.g. to hash many suffixes after a shared prefix.
+   */
+  clone(): Hash32Stream<O> {
+    const copy = new Hash32Stream<O>({
+      seed: this.seed,
+      output: this.outputFormat,
+      byteOrder: this.byteOrder,
+      encoding: this.encoding,
+    });
+    copy.h1 = this.h1;
+    copy.tail.set(this.tail);
+    copy.tailLength = this.tailLength;
+    copy.totalLength = this.totalLength;
+    return copy;
+  }
+
+  /**
+   * Discard all input, keeping the seed.
+   */
+  reset(): this {
+    this.h1 = this.seed;
+    this.tailLength = 0;
+    this.totalLength = 0;
+    return this;
+  }
+
+  /**
+   * Serialize the in-progress state so hashing can resume later,
+   * possibly in another process, via restoreHash32().
+   */
+  exportState(): Uint8Array {
+    return encodeState({
+      algorithm: 'x86_32',
+      output: this.outputFormat,
+      byteOrder: this.byteOrder,
+      encoding: this.encoding,
+      seed: this.seed,
+      lanes: [this.h1],
+      tail: this.tail.subarray(0, this.tailLength),
+      totalLength: this.totalLength,
+    });
   }
 }
 
 /**
- * Create a streaming hasher for MurmurHash3 x86 32-bit.
+ * Create a streaming hasher for MurmurHash3 x86 32-bit. With options, the
+ * stream's digest() type follows the output and profile options.
+ */
+export function createHash32(seed?: number): Hash32Stream<'unsigned'>;
+export function createHash32<T extends Hash32Options>(
+  options: T
+): Hash32Stream<OutputOf<T, 'x86_32', 'unsigned'>>;
+export function createHash32(
+  seedOrOptions: number | Hash32Options = 0
+): Hash32Stream {
+  return new Hash32Stream(seedOrOptions);
+}
+
+/**
+ * Resume a MurmurHash3 x86 32-bit stream from exportState() output.
  */
-export function createHash32(seed: number = 0): Hash32Stream {
-  return new Hash32Stream(seed);
+export function restoreHash32(state: Uint8Array): Hash32Stream {
+  return Hash32Stream.restore(state);
 }
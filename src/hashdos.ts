@@ -0,0 +1,280 @@
+import type { HashInput } from './types.ts';
+import {
+  createHasher,
+  type Hasher,
+  type HasherDigest,
+  type HasherOptions,
+  type HasherStream,
+} from './hasher.ts';
+
+// MurmurHash3 is not a keyed PRF: there are known key sets that collide
+// for every seed (Aumasson, Bernstein and Boßlet, 2012). A secret random
+// seed only stops attackers who precompute collisions for a known seed.
+
+/**
+ * Options for createRandomizedHasher()
+ */
+export interface RandomizedHasherOptions
+  extends Omit<HasherOptions, 'algorithm' | 'seed'> {
+  /** Algorithm name (default: 'x86_32') */
+  algorithm?: string;
+  /**
+   * 'process' (default) shares one random seed, drawn on first use, with
+   * every hasher in the process; 'instance' draws a seed per hasher
+   */
+  scope?: 'process' | 'instance';
+}
+
+/**
+ * A Hasher with a secret random seed that can be replaced
+ */
+export interface RandomizedHasher<D = unknown> extends Hasher<D> {
+  /**
+   * Current seed: a 64-bit bigint for 'x64_128' and 'murmur64a', a 32-bit
+   * number otherwise. Keep it secret: it must not reach untrusted parties.
+   */
+  readonly seed: number | bigint;
+  /**
+   * Switch this hasher to a fresh random seed and return it; with the
+   * 'process' scope, other hashers keep the shared seed. Every existing
+   * hash becomes stale, so tables must rehash their keys.
+   */
+  rotate(): number | bigint;
+}
+
+type WithAlgorithm<T> = T extends { algorithm: string }
+  ? T
+  : T & { algorithm: 'x86_32' };
+
+// Algorithms whose seed is 64 bits wide
+const SEED_64 = ['x64_128', 'murmur64a'];
+
+let processSeed: number | undefined;
+let processSeed64: bigint | undefined;
+
+/**
+ * count random 32-bit words from crypto.getRandomValues()
+ */
+function randomWords(count: number): Uint32Array {
+  const crypto = (
+    globalThis as {
+      crypto?: { getRandomValues?(array: Uint32Array): Uint32Array };
+    }
+  ).crypto;
+  if (typeof crypto?.getRandomValues !== 'function') {
+    throw new Error(
+      'crypto.getRandomValues() is not available in this runtime'
+    );
+  }
+  return crypto.getRandomValues(new Uint32Array(count));
+}
+
+/**
+ * A uniformly random 32-bit seed from crypto.getRandomValues(), for
+ * hash32() and hash128(). Throws if the runtime has no Web Crypto; there
+ * is no insecure fallback.
+ */
+export function randomSeed(): number {
+  return randomWords(1)[0];
+}
+
+/**
+ * A uniformly random 64-bit seed for hash128x64() and murmur64a(), which
+ * take seeds up to 2^64 - 1. Throws like randomSeed().
+ */
+export function randomSeed64(): bigint {
+  const [high, low] = randomWords(2);
+  return (BigInt(high) << 32n) | BigInt(low);
+}
+
+/**
+ * Create a hasher for hash tables keyed by untrusted input, seeded from
+ * crypto.getRandomValues(): with 64 random bits for 'x64_128' and
+ * 'murmur64a', and 32 for other algorithms.
+ *
+ * This stops hash flooding with keys precomputed for a known or default
+ * seed. It does not stop attackers who use MurmurHash3's seed-independent
+ * multicollisions, or who can learn the seed, e.g. from hash values or
+ * iteration order exposed to them. For those, bound the work per bucket
+ * (a tree or a chain limit), watch chain lengths with
+ * checkBucketChains(), or use a keyed hash such as SipHash.
+ */
+export function createRandomizedHasher<
+  const T extends RandomizedHasherOptions = {},
+>(options?: T): RandomizedHasher<HasherDigest<WithAlgorithm<T>>>;
+export function createRandomizedHasher(
+  options?: RandomizedHasherOptions
+): RandomizedHasher {
+  const { scope = 'process', algorithm = 'x86_32', ...settings } =
+    options ?? {};
+  if (scope !== 'process' && scope !== 'instance') {
+    throw new TypeError(`Unknown seed scope: ${scope}`);
+  }
+
+  const wide = SEED_64.includes(algorithm);
+  const draw = wide ? randomSeed64 : randomSeed;
+  let seed: number | bigint;
+  if (scope === 'instance') {
+    seed = draw();
+  } else if (wide) {
+    if (processSeed64 === undefined) {
+      processSeed64 = randomSeed64();
+    }
+    seed = processSeed64;
+  } else {
+    if (processSeed === undefined) {
+      processSeed = randomSeed();
+    }
+    seed = processSeed;
+  }
+  let hasher = createHasher({ ...settings, algorithm, seed });
+
+  return {
+    name: hasher.name,
+    digestSize: hasher.digestSize,
+    get seed() {
+      return seed;
+    },
+    hash(input: HashInput): unknown {
+      return hasher.hash(input);
+    },
+    stream(): HasherStream<unknown> {
+      return hasher.stream();
+    },
+    rotate(): number | bigint {
+      seed = draw();
+      hasher = createHasher({ ...settings, algorithm, seed });
+      return seed;
+    },
+  };
+}
+
+/**
+ * Result of checkBucketChains()
+ */
+export interface BucketChainReport {
+  /** Total keys over all buckets */
+  keys: number;
+  /** Number of buckets */
+  buckets: number;
+  /** Length of the longest chain */
+  longestChain: number;
+  /** Longest chain expected from a well-distributed hash */
+  threshold: number;
+  /** longestChain exceeds threshold: rotate the seed or change algorithm */
+  suspicious: boolean;
+}
+
+/**
+ * log P(X = k) for X ~ Poisson(load). Above 15, Stirling's series is
+ * arranged so the large terms cancel exactly rather than in floating point.
+ */
+function logPoisson(k: number, load: number): number {
+  if (k < 16) {
+    let logFactorial = 0;
+    for (let i = 2; i <= k; i++) {
+      logFactorial += Math.log(i);
+    }
+    return k * Math.log(load) - load - logFactorial;
+  }
+  return (
+    k * Math.log1p((load - k) / k) +
+    (k - load) -
+    0.5 * Math.log(2 * Math.PI * k) -
+    1 / (12 * k) +
+    1 / (360 * k * k * k)
+  );
+}
+
+/**
+ * Longest bucket chain that keys spread uniformly at random over buckets
+ * produce, except with probability falsePositiveRate (default: 1e-6).
+ * Compare chain lengths against it as keys are inserted; a longer chain
+ * suggests the keys were chosen to collide.
+ */
+export function chainLengthThreshold(
+  keys: number,
+  buckets: number,
+  falsePositiveRate: number = 1e-6
+): number {
+  if (!Number.isSafeInteger(keys) || keys < 0) {
+    throw new RangeError(`Invalid number of keys: ${keys}`);
+  }
+  if (!Number.isSafeInteger(buckets) || buckets < 1) {
+    throw new RangeError(`Invalid number of buckets: ${buckets}`);
+  }
+  if (!(falsePositiveRate > 0 && falsePositiveRate < 1)) {
+    throw new RangeError(`Invalid false positive rate: ${falsePositiveRate}`);
+  }
+
+  if (keys === 0) {
+    return 0;
+  }
+
+  // Chain lengths are close to Poisson(load) distributed. Find the
+  // smallest k whose tail, summed over all buckets, is below the rate.
+  // The tail beyond k is bounded by a geometric series, so the threshold
+  // errs on the high side. Above the load the bound falls as k grows, so
+  // a binary search finds k in O(log keys) steps even for huge loads.
+  const load = keys / buckets;
+  const below = (k: number) =>
+    Math.exp(logPoisson(k, load)) * ((k + 1) / (k + 1 - load)) * buckets <
+    falsePositiveRate;
+  let low = Math.max(1, Math.floor(load));
+  let high = keys;
+  if (!below(high)) {
+    return keys;
+  }
+  while (low < high) {
+    const mid = Math.floor((low + high) / 2);
+    if (below(mid)) {
+      high = mid;
+    } else {
+      low = mid + 1;
+    }
+  }
+  return high - 1;
+}
+
+/**
+ * Check a table's chain lengths (keys per bucket) for signs of hash
+ * flooding. A suspicious report means chains are far longer than a
+ * well-distributed hash would produce. Throws a RangeError for chain
+ * lengths that are not non-negative integers.
+ */
+export function checkBucketChains(
+  chainLengths: ArrayLike<number>,
+  falsePositiveRate?: number
+): BucketChainReport {
+  let keys = 0;
+  let longestChain = 0;
+  for (let i = 0; i < chainLengths.length; i++) {
+    const length = chainLengths[i];
+    if (!Number.isSafeInteger(length) || length < 0) {
+      throw new RangeError(`Invalid chain length in bucket ${i}: ${length}`);
+    }
+    keys += length;
+    longestChain = Math.max(longestChain, length);
+  }
+  if (chainLengths.length === 0) {
+    return {
+      keys: 0,
+      buckets: 0,
+      longestChain: 0,
+      threshold: 0,
+      suspicious: false,
+    };
+  }
+  const threshold = chainLengthThreshold(
+    keys,
+    chainLengths.length,
+    falsePositiveRate
+  );
+  return {
+    keys,
+    buckets: chainLengths.length,
+    longestChain,
+    threshold,
+    suspicious: longestChain > threshold,
+  };
+}
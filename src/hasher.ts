@@ -0,0 +1,243 @@
+import type {
+  HashInput,
+  ByteOrder,
+  StringEncoding,
+  CompatProfile,
+  Hash32Options,
+  Hash32Output,
+  Hash128Options,
+  HashOutput,
+  Hash128x64Options,
+  Hash128x64Output,
+  Murmur64AOptions,
+  Murmur64AOutput,
+} from './types.ts';
+import type { Digest32, Digest128, DigestTypes } from './output.ts';
+import type { OutputOf } from './profiles.ts';
+import type { IncrementalHasher } from './transform.ts';
+import { hash32, createHash32 } from './hash32.ts';
+import { hash128, createHash128 } from './hash128.ts';
+import { hash128x64, createHash128x64 } from './hash128x64.ts';
+import { murmur2, createMurmur2 } from './murmur2.ts';
+import { murmur2a, createMurmur2A } from './murmur2a.ts';
+import { murmur64a, createMurmur64A } from './murmur64a.ts';
+
+/**
+ * Options for createHasher(). Algorithms reject options they do not
+ * support.
+ */
+export interface HasherOptions {
+  /** Registered algorithm name, e.g. 'x86_32', 'x86_128' or 'x64_128' */
+  algorithm: string;
+  /** Seed (default: 0); bigints only for 64-bit seeded algorithms */
+  seed?: number | bigint;
+  /** Output format (default: the algorithm's usual format) */
+  output?: string;
+  /** Byte order for MurmurHash3 digests (default: 'big') */
+  byteOrder?: ByteOrder;
+  /** String encoding (default: 'utf8') */
+  encoding?: StringEncoding;
+  /** MurmurHash3 compatibility profile */
+  profile?: CompatProfile;
+}
+
+/**
+ * A stream returned by Hasher.stream(). All stream classes in this
+ * package satisfy it.
+ */
+export interface HasherStream<D> extends IncrementalHasher<D> {
+  update(input: HashInput): this;
+  clone(): HasherStream<D>;
+  reset(): this;
+}
+
+/**
+ * A hash algorithm with its seed and output settings applied
+ */
+export interface Hasher<D = unknown> {
+  /** Algorithm name, as registered */
+  readonly name: string;
+  /** Size of the raw digest in bytes */
+  readonly digestSize: number;
+  /** Hash input in one call */
+  hash(input: HashInput): D;
+  /** Start a new streaming hash with the same settings */
+  stream(): HasherStream<D>;
+}
+
+/**
+ * A pluggable algorithm for createHasher()
+ */
+export interface HashAlgorithm {
+  /** Size of the raw digest in bytes */
+  digestSize: number;
+  /**
+   * Validate options and return functions bound to them. Throw a
+   * TypeError or RangeError for options the algorithm does not support.
+   */
+  create(options: Omit<HasherOptions, 'algorithm'>): {
+    hash(input: HashInput): unknown;
+    stream(): HasherStream<unknown>;
+  };
+}
+
+/**
+ * Digest type of a Hasher created with options of type T. Unregistered or
+ * non-literal algorithm names give unknown.
+ */
+export type HasherDigest<T> = T extends { algorithm: infer A }
+  ? A extends keyof BuiltinDigests<T>
+    ? BuiltinDigests<T>[A]
+    : unknown
+  : unknown;
+
+interface BuiltinDigests<T> {
+  x86_32: Digest32<Extract<OutputOf<T, 'x86_32', 'unsigned'>, Hash32Output>>;
+  x86_128: Digest128<Extract<OutputOf<T, 'x86_128', 'hex'>, HashOutput>>;
+  x64_128: Digest128<
+    Extract<OutputOf<T, 'x64_128', 'hex'>, Hash128x64Output>
+  >;
+  murmur2: number;
+  murmur2a: number;
+  murmur64a: DigestTypes[Extract<
+    OutputOf<T, 'murmur64a', 'hex'>,
+    Murmur64AOutput
+  >];
+}
+
+/**
+ * A MurmurHash3 variant. Creating a stream validates every option.
+ */
+function murmur3<O>(
+  digestSize: number,
+  hash: (input: HashInput, options: O) => unknown,
+  stream: (options: O) => HasherStream<unknown>
+): HashAlgorithm {
+  return {
+    digestSize,
+    create(options) {
+      const settings = options as O;
+      stream(settings);
+      return {
+        hash: (input) => hash(input, settings),
+        stream: () => stream(settings),
+      };
+    },
+  };
+}
+
+/**
+ * Throw a TypeError if options set anything a MurmurHash2 variant does
+ * not support. These hash strings as UTF-8 and have a single byte order.
+ */
+function checkMurmur2Options(
+  name: string,
+  options: Omit<HasherOptions, 'algorithm'>,
+  outputs: readonly string[]
+): void {
+  if (options.output !== undefined && !outputs.includes(options.output)) {
+    throw new TypeError(
+      `Unsupported output format for ${name}: ${options.output}`
+    );
+  }
+  if (options.encoding !== undefined && options.encoding !== 'utf8') {
+    throw new TypeError(
+      `Unsupported string encoding for ${name}: ${options.encoding}`
+    );
+  }
+  if (options.byteOrder !== undefined || options.profile !== undefined) {
+    throw new TypeError(
+      `${name} does not support the byteOrder and profile options`
+    );
+  }
+}
+
+/**
+ * A 32-bit MurmurHash2 variant with a positional seed
+ */
+function murmur2Variant(
+  name: string,
+  hash: (input: HashInput, seed: number) => number,
+  stream: (seed: number) => HasherStream<number>
+): HashAlgorithm {
+  return {
+    digestSize: 4,
+    create(options) {
+      checkMurmur2Options(name, options, ['unsigned']);
+      const seed = (options.seed ?? 0) as number;
+      stream(seed);
+      return {
+        hash: (input) => hash(input, seed),
+        stream: () => stream(seed),
+      };
+    },
+  };
+}
+
+const algorithms = new Map<string, HashAlgorithm>([
+  [
+    'x86_32',
+    murmur3<Hash32Options>(4, hash32, (options) => createHash32(options)),
+  ],
+  ['x86_128', murmur3<Hash128Options>(16, hash128, createHash128)],
+  ['x64_128', murmur3<Hash128x64Options>(16, hash128x64, createHash128x64)],
+  ['murmur2', murmur2Variant('murmur2', murmur2, createMurmur2)],
+  ['murmur2a', murmur2Variant('murmur2a', murmur2a, createMurmur2A)],
+  [
+    'murmur64a',
+    {
+      digestSize: 8,
+      create(options) {
+        checkMurmur2Options('murmur64a', options, ['hex', 'bigint']);
+        const settings = options as Murmur64AOptions;
+        createMurmur64A(settings);
+        return {
+          hash: (input) => murmur64a(input, settings),
+          stream: () => createMurmur64A(settings),
+        };
+      },
+    },
+  ],
+]);
+
+/**
+ * Make an algorithm available to createHasher() under the given name.
+ * Throws if the name is already taken.
+ */
+export function registerAlgorithm(name: string, algorithm: HashAlgorithm): void {
+  if (algorithms.has(name)) {
+    throw new Error(`Hash algorithm is already registered: ${name}`);
+  }
+  algorithms.set(name, algorithm);
+}
+
+/**
+ * Names of all registered algorithms
+ */
+export function listAlgorithms(): string[] {
+  return Array.from(algorithms.keys());
+}
+
+/**
+ * Create a hasher for the named algorithm with its seed, output and
+ * encoding settings applied, e.g. from a configuration file. Throws a
+ * TypeError for unknown algorithms and unsupported options, and a
+ * RangeError for invalid seeds.
+ */
+export function createHasher<const T extends HasherOptions>(
+  options: T
+): Hasher<HasherDigest<T>>;
+export function createHasher(options: HasherOptions): Hasher {
+  const { algorithm: name, ...settings } = options;
+  const algorithm = algorithms.get(name);
+  if (algorithm === undefined) {
+    throw new TypeError(`Unknown hash algorithm: ${name}`);
+  }
+  const { hash, stream } = algorithm.create(settings);
+  return {
+    name,
+    digestSize: algorithm.digestSize,
+    hash,
+    stream,
+  };
+}
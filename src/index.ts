@@ -1,10 +1,109 @@
 // Core hash functions
-export { hash32, createHash32, Hash32Stream } from './hash32.ts';
-export { hash128, createHash128, Hash128Stream } from './hash128.ts';
-export { hash128x64, createHash128x64, Hash128x64Stream } from './hash128x64.ts';
+export { hash32, createHash32, restoreHash32, Hash32Stream } from './hash32.ts';
+export { hash128, createHash128, restoreHash128, Hash128Stream } from './hash128.ts';
+export {
+  hash128x64,
+  createHash128x64,
+  restoreHash128x64,
+  Hash128x64Stream,
+} from './hash128x64.ts';
+
+// MurmurHash2 family
+export { murmur2, createMurmur2, Murmur2Stream } from './murmur2.ts';
+export { murmur2a, createMurmur2A, Murmur2AStream } from './murmur2a.ts';
+export { murmur64a, createMurmur64A, Murmur64AStream } from './murmur64a.ts';
+
+// Algorithm registry
+export { createHasher, registerAlgorithm, listAlgorithms } from './hasher.ts';
+
+// Seeds
+export { wrapSeed } from './seed.ts';
+
+// Hash flooding defenses
+export {
+  createRandomizedHasher,
+  randomSeed,
+  randomSeed64,
+  chainLengthThreshold,
+  checkBucketChains,
+} from './hashdos.ts';
+
+// Backend selection
+export { setBackend, getBackend } from './backend.ts';
+
+// Self-test
+export { selfTest } from './selftest.ts';
+
+// Batch hashing
+export { hash32Batch, hash128Batch, hash128x64Batch } from './batch.ts';
+
+// Async sources
+export { hash32Async, hash128Async, hash128x64Async } from './async.ts';
+
+// Pass-through hashing
+export {
+  HashTransformStream,
+  createHashTransformStream,
+} from './transform.ts';
+
+// Partitioning and routing
+export { cassandraToken } from './cassandra.ts';
+export { kafkaPartition } from './kafka.ts';
+export { elasticsearchHash, elasticsearchShard } from './elasticsearch.ts';
+export {
+  sparkHash,
+  sparkBucketId,
+  sparkHashInt,
+  sparkHashLong,
+  sparkHashFloat,
+  sparkHashDouble,
+  sparkHashBytes,
+} from './spark.ts';
 
 // Types
-export type { HashInput, HashOutput, Hash128Options } from './types.ts';
+export type {
+  HashInput,
+  BinaryInput,
+  HashOutput,
+  Hash32Output,
+  Hash128x64Output,
+  ByteOrder,
+  StringEncoding,
+  CompatProfile,
+  Hash32Options,
+  Hash128Options,
+  Hash128x64Options,
+  BatchInput,
+  PackedInput,
+} from './types.ts';
+export type { Digest32, Digest128, DigestTypes } from './output.ts';
+export type { OutputOf } from './profiles.ts';
+export type {
+  Hasher,
+  HasherOptions,
+  HasherStream,
+  HasherDigest,
+  HashAlgorithm,
+} from './hasher.ts';
+export type {
+  RandomizedHasher,
+  RandomizedHasherOptions,
+  BucketChainReport,
+} from './hashdos.ts';
+export type { AsyncHashSource, AsyncHashOptions } from './async.ts';
+export type {
+  IncrementalHasher,
+  HashTransformOptions,
+} from './transform.ts';
+export type { ShardRoutingOptions } from './elasticsearch.ts';
+export type {
+  SparkColumn,
+  SparkDataType,
+  SparkPrimitiveType,
+} from './spark.ts';
+export type { Backend } from './backend.ts';
+export type { SelfTestResult, SelfTestReport } from './selftest.ts';
 
 // v1 compatibility (deprecated)
-export { v3 } from './v1-compat.ts';
+export { v3, checkV1Migration } from './v1-compat.ts';
+export type { V1MigrationReport } from './v1-compat.ts';
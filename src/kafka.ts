@@ -0,0 +1,18 @@
+import type { HashInput } from './types.ts';
+import { murmur2 } from './murmur2.ts';
+
+// Seed used by Utils.murmur2() in the Kafka Java client
+const KAFKA_SEED = 0x9747b28c;
+
+/**
+ * Partition the Kafka Java client's default partitioner assigns to a
+ * record with a non-null key: toPositive(murmur2(keyBytes)) % numPartitions.
+ * Strings are hashed as UTF-8, as StringSerializer encodes them.
+ */
+export function kafkaPartition(key: HashInput, numPartitions: number): number {
+  if (!Number.isInteger(numPartitions) || numPartitions < 1) {
+    throw new RangeError(`Invalid number of partitions: ${numPartitions}`);
+  }
+  // toPositive() clears the sign bit rather than taking Math.abs()
+  return (murmur2(key, KAFKA_SEED) & 0x7fffffff) % numPartitions;
+}
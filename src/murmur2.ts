@@ -0,0 +1,125 @@
+import type { HashInput } from './types.ts';
+import {
+  toBytes,
+  encodeString,
+  encodedBytes,
+  concatBytes,
+} from './encoding.ts';
+import { checkSeed } from './seed.ts';
+
+// MurmurHash2 constants
+const M = 0x5bd1e995;
+const R = 24;
+
+/**
+ * Compute MurmurHash2 (32-bit) of bytes[offset, offset + len)
+ */
+export function compute(
+  bytes: Uint8Array,
+  offset: number,
+  len: number,
+  seed: number
+): number {
+  let h = seed ^ len;
+  const end = offset + (len & ~3);
+
+  for (; offset < end; offset += 4) {
+    let k =
+      bytes[offset] |
+      (bytes[offset + 1] << 8) |
+      (bytes[offset + 2] << 16) |
+      (bytes[offset + 3] << 24);
+    k = Math.imul(k, M);
+    k ^= k >>> R;
+    k = Math.imul(k, M);
+    h = Math.imul(h, M) ^ k;
+  }
+
+  switch (len & 3) {
+    case 3:
+      h ^= bytes[offset + 2] << 16;
+    // fallthrough
+    case 2:
+      h ^= bytes[offset + 1] << 8;
+    // fallthrough
+    case 1:
+      h ^= bytes[offset];
+      h = Math.imul(h, M);
+  }
+
+  h ^= h >>> 13;
+  h = Math.imul(h, M);
+  h ^= h >>> 15;
+  return h >>> 0;
+}
+
+/**
+ * Compute MurmurHash2 (32-bit) hash.
+ */
+export function murmur2(input: HashInput, seed: number = 0): number {
+  checkSeed(seed);
+  if (typeof input === 'string') {
+    const length = encodeString(input);
+    return compute(encodedBytes(), 0, length, seed);
+  }
+  const bytes = toBytes(input);
+  return compute(bytes, 0, bytes.length, seed);
+}
+
+/**
+ * Streaming hasher. MurmurHash2 mixes the total length into its initial
+ * state, so input is buffered until digest(); use MurmurHash2A or
+ * MurmurHash3 for constant-memory streaming.
+ */
+export class Murmur2Stream {
+  private chunks: Uint8Array[] = [];
+  private totalLength = 0;
+  private readonly seed: number;
+
+  constructor(seed: number = 0) {
+    this.seed = checkSeed(seed);
+  }
+
+  update(input: HashInput): this {
+    const bytes = toBytes(input);
+    this.chunks.push(bytes.slice());
+    this.totalLength += bytes.length;
+    return this;
+  }
+
+  /**
+   * Return the hash of everything written so far. The stream is not
+   * consumed: further update() calls continue from the same state.
+   */
+  digest(): number {
+    const bytes = concatBytes(this.chunks, this.totalLength);
+    this.chunks = [bytes];
+    return compute(bytes, 0, bytes.length, this.seed);
+  }
+
+  /**
+   * Fork the stream, e.g. to hash many suffixes after a shared prefix.
+   */
+  clone(): Murmur2Stream {
+    const copy = new Murmur2Stream(this.seed);
+    copy.chunks = this.chunks.slice();
+    copy.totalLength = this.totalLength;
+    return copy;
+  }
+
+  /**
+   * Discard all input, keeping the seed.
+   */
+  reset(): this {
+    this.chunks = [];
+    this.totalLength = 0;
+    return this;
+  }
+}
+
+/**
+ * Create a streaming hasher for MurmurHash2 (32-bit).
+ */
+export function createMurmur2(seed: number = 0): Murmur2Stream {
+  return new Murmur2Stream(seed);
+}
@@ -0,0 +1,180 @@
+import type { HashInput } from './types.ts';
+import { toBytes, encodeString, encodedBytes } from './encoding.ts';
+import { checkSeed } from './seed.ts';
+
+// MurmurHash2 constants
+const M = 0x5bd1e995;
+const R = 24;
+
+/**
+ * Mix one 32-bit word into the hash
+ */
+function mmix(h: number, k: number): number {
+  k = Math.imul(k, M);
+  k ^= k >>> R;
+  k = Math.imul(k, M);
+  return Math.imul(h, M) ^ k;
+}
+
+/**
+ * Mix complete 4-byte blocks into the running hash state
+ */
+function mixBlocks(
+  h: number,
+  bytes: Uint8Array,
+  offset: number,
+  blocks: number
+): number {
+  for (let i = 0; i < blocks; i++, offset += 4) {
+    h = mmix(
+      h,
+      bytes[offset] |
+        (bytes[offset + 1] << 8) |
+        (bytes[offset + 2] << 16) |
+        (bytes[offset + 3] << 24)
+    );
+  }
+  return h;
+}
+
+/**
+ * Mix the 0-3 byte tail and total length, then finalize
+ */
+function finalize(
+  h: number,
+  bytes: Uint8Array,
+  tailOffset: number,
+  tailLength: number,
+  totalLength: number
+): number {
+  let t = 0;
+  switch (tailLength) {
+    case 3:
+      t ^= bytes[tailOffset + 2] << 16;
+    // fallthrough
+    case 2:
+      t ^= bytes[tailOffset + 1] << 8;
+    // fallthrough
+    case 1:
+      t ^= bytes[tailOffset];
+  }
+
+  // The reference keeps the length in a uint32_t
+  h = mmix(h, t);
+  h = mmix(h, totalLength >>> 0);
+
+  h ^= h >>> 13;
+  h = Math.imul(h, M);
+  h ^= h >>> 15;
+  return h >>> 0;
+}
+
+/**
+ * Compute MurmurHash2A of bytes[offset, offset + len)
+ */
+export function compute(
+  bytes: Uint8Array,
+  offset: number,
+  len: number,
+  seed: number
+): number {
+  const blocks = len >>> 2;
+  const h = mixBlocks(seed, bytes, offset, blocks);
+  return finalize(h, bytes, offset + blocks * 4, len & 3, len);
+}
+
+/**
+ * Compute MurmurHash2A, the incremental variant of MurmurHash2.
+ */
+export function murmur2a(input: HashInput, seed: number = 0): number {
+  checkSeed(seed);
+  if (typeof input === 'string') {
+    const length = encodeString(input);
+    return compute(encodedBytes(), 0, length, seed);
+  }
+  const bytes = toBytes(input);
+  return compute(bytes, 0, bytes.length, seed);
+}
+
+/**
+ * Streaming hasher. Complete 4-byte blocks are mixed as they arrive; only
+ * the 0-3 byte tail is carried between update() calls.
+ */
+export class Murmur2AStream {
+  private h: number;
+  private readonly tail = new Uint8Array(4);
+  private tailLength = 0;
+  private totalLength = 0;
+  private readonly seed: number;
+
+  constructor(seed: number = 0) {
+    this.seed = checkSeed(seed);
+    this.h = seed;
+  }
+
+  update(input: HashInput): this {
+    const bytes = toBytes(input);
+    const len = bytes.length;
+    let offset = 0;
+    this.totalLength += len;
+
+    // Complete the pending partial block first
+    if (this.tailLength > 0) {
+      while (this.tailLength < 4 && offset < len) {
+        this.tail[this.tailLength++] = bytes[offset++];
+      }
+      if (this.tailLength < 4) {
+        return this;
+      }
+      this.h = mixBlocks(this.h, this.tail, 0, 1);
+      this.tailLength = 0;
+    }
+
+    const blocks = (len - offset) >>> 2;
+    this.h = mixBlocks(this.h, bytes, offset, blocks);
+    offset += blocks * 4;
+
+    // Carry the remainder to the next update() or digest()
+    while (offset < len) {
+      this.tail[this.tailLength++] = bytes[offset++];
+    }
+    return this;
+  }
+
+  /**
+   * Return the hash of everything written so far. The stream is not
+   * consumed: further update() calls continue from the same state.
+   */
+  digest(): number {
+    return finalize(this.h, this.tail, 0, this.tailLength, this.totalLength);
+  }
+
+  /**
+   * Fork the stream, e.g. to hash many suffixes after a shared prefix.
+   */
+  clone(): Murmur2AStream {
+    const copy = new Murmur2AStream(this.seed);
+    copy.h = this.h;
+    copy.tail.set(this.tail);
+    copy.tailLength = this.tailLength;
+    copy.totalLength = this.totalLength;
+    return copy;
+  }
+
+  /**
+   * Discard all input, keeping the seed.
+   */
+  reset(): this {
+    this.h = this.seed;
+    this.tailLength = 0;
+    this.totalLength = 0;
+    return this;
+  }
+}
+
+/**
+ * Create a streaming hasher for MurmurHash2A.
+ */
+export function createMurmur2A(seed: number = 0): Murmur2AStream {
+  return new Murmur2AStream(seed);
+}
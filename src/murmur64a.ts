@@ -0,0 +1,234 @@
+import type { HashInput, Murmur64AOptions, Murmur64AOutput } from './types.ts';
+import {
+  toBytes,
+  encodeString,
+  encodedBytes,
+  concatBytes,
+  wordsToHex,
+  hexToBigInt,
+} from './encoding.ts';
+import type { DigestTypes } from './output.ts';
+import type { OutputOf } from './profiles.ts';
+import { splitSeed64 } from './seed.ts';
+
+// MurmurHash64A multiplier, split into high and low 32-bit words
+const M_HI = 0xc6a4a793;
+const M_LO = 0x5bd1e995;
+
+// 64-bit values are carried as pairs of 32-bit locals; mul64() returns the
+// high word and leaves the low word here
+let lo = 0;
+
+/**
+ * 64-bit multiplication, truncated to 64 bits
+ */
+function mul64(ah: number, al: number, bh: number, bl: number): number {
+  const a0 = al & 0xffff;
+  const a1 = al >>> 16;
+  const b0 = bl & 0xffff;
+  const b1 = bl >>> 16;
+
+  const p00 = a0 * b0;
+  const p01 = a0 * b1;
+  const p10 = a1 * b0;
+  const mid = (p00 >>> 16) + (p01 & 0xffff) + (p10 & 0xffff);
+  lo = (mid << 16) | (p00 & 0xffff);
+  const carry = a1 * b1 + (p01 >>> 16) + (p10 >>> 16) + (mid >>> 16);
+
+  return (carry + Math.imul(al, bh) + Math.imul(ah, bl)) | 0;
+}
+
+// Reused digest words
+const words = new Uint32Array(2);
+
+/**
+ * Compute MurmurHash64A of bytes[offset, offset + len) with a 64-bit seed
+ * given as two 32-bit words, and write the digest words to out.
+ */
+export function compute(
+  bytes: Uint8Array,
+  offset: number,
+  len: number,
+  seedHi: number,
+  seedLo: number,
+  out: Uint32Array
+): void {
+  // h = seed ^ (len * m)
+  let hh = mul64(Math.floor(len / 0x100000000), len >>> 0, M_HI, M_LO);
+  let hl = lo ^ seedLo;
+  hh ^= seedHi;
+
+  const end = offset + (len & ~7);
+  for (; offset < end; offset += 8) {
+    const kl =
+      bytes[offset] |
+      (bytes[offset + 1] << 8) |
+      (bytes[offset + 2] << 16) |
+      (bytes[offset + 3] << 24);
+    const kh =
+      bytes[offset + 4] |
+      (bytes[offset + 5] << 8) |
+      (bytes[offset + 6] << 16) |
+      (bytes[offset + 7] << 24);
+
+    // k *= m; k ^= k >> 47; k *= m
+    let k = mul64(kh, kl, M_HI, M_LO);
+    k = mul64(k, lo ^ (k >>> 15), M_HI, M_LO);
+
+    // h ^= k; h *= m
+    hh = mul64(hh ^ k, hl ^ lo, M_HI, M_LO);
+    hl = lo;
+  }
+
+  switch (len & 7) {
+    case 7:
+      hh ^= bytes[offset + 6] << 16;
+    // fallthrough
+    case 6:
+      hh ^= bytes[offset + 5] << 8;
+    // fallthrough
+    case 5:
+      hh ^= bytes[offset + 4];
+    // fallthrough
+    case 4:
+      hl ^= bytes[offset + 3] << 24;
+    // fallthrough
+    case 3:
+      hl ^= bytes[offset + 2] << 16;
+    // fallthrough
+    case 2:
+      hl ^= bytes[offset + 1] << 8;
+    // fallthrough
+    case 1:
+      hl ^= bytes[offset];
+      hh = mul64(hh, hl, M_HI, M_LO);
+      hl = lo;
+  }
+
+  // h ^= h >> 47; h *= m; h ^= h >> 47
+  hh = mul64(hh, hl ^ (hh >>> 15), M_HI, M_LO);
+  out[0] = hh;
+  out[1] = lo ^ (hh >>> 15);
+}
+
+/**
+ * Output format selected by options of type T
+ */
+type Murmur64AOutputOf<T> = Extract<
+  OutputOf<T, 'murmur64a', 'hex'>,
+  Murmur64AOutput
+>;
+
+/**
+ * Resolve the output option, throwing a TypeError for unsupported formats
+ */
+function resolveOutput(output: string | undefined): Murmur64AOutput {
+  if (output === undefined) {
+    return 'hex';
+  }
+  if (output !== 'hex' && output !== 'bigint') {
+    throw new TypeError(`Unsupported output format for murmur64a: ${output}`);
+  }
+  return output;
+}
+
+function format<O extends Murmur64AOutput>(
+  out: Uint32Array,
+  output: O
+): DigestTypes[O] {
+  const hex = wordsToHex(out);
+  return (output === 'bigint' ? hexToBigInt(hex) : hex) as DigestTypes[O];
+}
+
+/**
+ * Compute MurmurHash64A, the 64-bit MurmurHash2 variant for 64-bit
+ * platforms. The return type follows the output option.
+ */
+export function murmur64a<T extends Murmur64AOptions = {}>(
+  input: HashInput,
+  options?: T
+): DigestTypes[Murmur64AOutputOf<T>];
+export function murmur64a(
+  input: HashInput,
+  options?: Murmur64AOptions
+): string | bigint {
+  const [seedHi, seedLo] = splitSeed64(options?.seed ?? 0);
+  const output = resolveOutput(options?.output);
+  if (typeof input === 'string') {
+    const length = encodeString(input);
+    compute(encodedBytes(), 0, length, seedHi, seedLo, words);
+  } else {
+    const bytes = toBytes(input);
+    compute(bytes, 0, bytes.length, seedHi, seedLo, words);
+  }
+  return format(words, output);
+}
+
+/**
+ * Streaming hasher. MurmurHash64A mixes the total length into its initial
+ * state, so input is buffered until digest().
+ */
+export class Murmur64AStream<O extends Murmur64AOutput = Murmur64AOutput> {
+  private chunks: Uint8Array[] = [];
+  private totalLength = 0;
+  private readonly seed: number | bigint;
+  private readonly outputFormat: O;
+
+  constructor(options?: Murmur64AOptions) {
+    this.seed = options?.seed ?? 0;
+    splitSeed64(this.seed);
+    this.outputFormat = resolveOutput(options?.output) as O;
+  }
+
+  update(input: HashInput): this {
+    const bytes = toBytes(input);
+    this.chunks.push(bytes.slice());
+    this.totalLength += bytes.length;
+    return this;
+  }
+
+  /**
+   * Return the hash of everything written so far. The stream is not
+   * consumed: further update() calls continue from the same state.
+   */
+  digest(): DigestTypes[O] {
+    const bytes = concatBytes(this.chunks, this.totalLength);
+    this.chunks = [bytes];
+    const [seedHi, seedLo] = splitSeed64(this.seed);
+    compute(bytes, 0, bytes.length, seedHi, seedLo, words);
+    return format(words, this.outputFormat);
+  }
+
+  /**
+   * Fork the stream, e.g. to hash many suffixes after a shared prefix.
+   */
+  clone(): Murmur64AStream<O> {
+    const copy = new Murmur64AStream<O>({
+      seed: this.seed,
+      output: this.outputFormat,
+    });
+    copy.chunks = this.chunks.slice();
+    copy.totalLength = this.totalLength;
+    return copy;
+  }
+
+  /**
+   * Discard all input, keeping the seed and output settings.
+   */
+  reset(): this {
+    this.chunks = [];
+    this.totalLength = 0;
+    return this;
+  }
+}
+
+/**
+ * Create a streaming hasher for MurmurHash64A. The stream's digest() type
+ * follows the output option, like murmur64a().
+ */
+export function createMurmur64A<T extends Murmur64AOptions = {}>(
+  options?: T
+): Murmur64AStream<Murmur64AOutputOf<T>>;
+export function createMurmur64A(options?: Murmur64AOptions): Murmur64AStream {
+  return new Murmur64AStream(options);
+}
@@ -0,0 +1,99 @@
+import { open } from 'node:fs/promises';
+import type {
+  Hash32Options,
+  Hash128Options,
+  Hash128x64Options,
+} from '../types.ts';
+import type { Digest32, Digest128 } from '../output.ts';
+import type { OutputOf } from '../profiles.ts';
+import {
+  readSource,
+  resolveReadSize,
+  type AsyncHashOptions,
+} from '../async.ts';
+import { Hash32Stream } from '../hash32.ts';
+import { Hash128Stream } from '../hash128.ts';
+import { Hash128x64Stream } from '../hash128x64.ts';
+
+/**
+ * Read the file at path through one reused buffer of readSize bytes,
+ * passing each filled part to update()
+ */
+async function readFile(
+  path: string | URL,
+  options: AsyncHashOptions | undefined,
+  update: (bytes: Uint8Array) => void
+): Promise<void> {
+  const readSize = resolveReadSize(options);
+  options?.signal?.throwIfAborted();
+  const file = await open(path, 'r');
+  try {
+    const { size } = await file.stat();
+    const buffer = new Uint8Array(readSize);
+    async function* chunks(): AsyncGenerator<Uint8Array> {
+      for (;;) {
+        const { bytesRead } = await file.read(buffer, 0, readSize, null);
+        if (bytesRead === 0) {
+          return;
+        }
+        yield buffer.subarray(0, bytesRead);
+      }
+    }
+    await readSource(chunks(), 'utf8', options, update, size);
+  } finally {
+    await file.close();
+  }
+}
+
+/**
+ * MurmurHash3 x86 32-bit of a file's contents, read in constant memory.
+ * Accepts the same options as hash32Async().
+ */
+export function hash32File<T extends Hash32Options & AsyncHashOptions = {}>(
+  path: string | URL,
+  options?: T
+): Promise<Digest32<OutputOf<T, 'x86_32', 'unsigned'>>>;
+export async function hash32File(
+  path: string | URL,
+  options?: Hash32Options & AsyncHashOptions
+): Promise<Digest32> {
+  const stream = new Hash32Stream(options);
+  await readFile(path, options, (bytes) => stream.update(bytes));
+  return stream.digest();
+}
+
+/**
+ * MurmurHash3 x86 128-bit of a file's contents, read in constant memory.
+ * Accepts the same options as hash128Async().
+ */
+export function hash128File<T extends Hash128Options & AsyncHashOptions = {}>(
+  path: string | URL,
+  options?: T
+): Promise<Digest128<OutputOf<T, 'x86_128', 'hex'>>>;
+export async function hash128File(
+  path: string | URL,
+  options?: Hash128Options & AsyncHashOptions
+): Promise<Digest128> {
+  const stream = new Hash128Stream(options);
+  await readFile(path, options, (bytes) => stream.update(bytes));
+  return stream.digest();
+}
+
+/**
+ * MurmurHash3 x64 128-bit of a file's contents, read in constant memory.
+ * Accepts the same options as hash128x64Async().
+ */
+export function hash128x64File<
+  T extends Hash128x64Options & AsyncHashOptions = {},
+>(
+  path: string | URL,
+  options?: T
+): Promise<Digest128<OutputOf<T, 'x64_128', 'hex'>>>;
+export async function hash128x64File(
+  path: string | URL,
+  options?: Hash128x64Options & AsyncHashOptions
+): Promise<Digest128> {
+  const stream = new Hash128x64Stream(options);
+  await readFile(path, options, (bytes) => stream.update(bytes));
+  return stream.digest();
+}
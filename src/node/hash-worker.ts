@@ -0,0 +1,19 @@
+import { parentPort } from 'node:worker_threads';
+import { batch, type WorkerTask, type WorkerReply } from './pool.ts';
+
+parentPort?.on('message', (task: WorkerTask) => {
+  let reply: WorkerReply;
+  try {
+    const words = batch[task.algorithm](task.inputs, task.seed);
+    reply = { id: task.id, words };
+  } catch (error) {
+    reply = {
+      id: task.id,
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+  parentPort?.postMessage(
+    reply,
+    reply.words ? [reply.words.buffer as ArrayBuffer] : []
+  );
+});
@@ -0,0 +1,7 @@
+// Node.js-only APIs
+export { HashPool, createHashPool } from './pool.ts';
+export { hash32File, hash128File, hash128x64File } from './file.ts';
+export { HashTransform, createHashTransform } from './transform.ts';
+
+// Types
+export type { HashPoolOptions, PoolTaskOptions } from './pool.ts';
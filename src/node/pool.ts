@@ -0,0 +1,513 @@
+import { Worker } from 'node:worker_threads';
+import { availableParallelism } from 'node:os';
+import type {
+  BatchInput,
+  HashInput,
+  Hash128Options,
+  Hash128x64Options,
+  StringEncoding,
+} from '../types.ts';
+import { hash32Batch, hash128Batch, hash128x64Batch } from '../batch.ts';
+import { formatDigest128, type Digest128 } from '../output.ts';
+import { resolveOptions, type OutputOf } from '../profiles.ts';
+import { toBytes } from '../encoding.ts';
+import { checkSeed, splitSeed64 } from '../seed.ts';
+
+type PoolAlgorithm = 'x86_32' | 'x86_128' | 'x64_128';
+
+/** @internal Message sent to a worker */
+export interface WorkerTask {
+  id: number;
+  algorithm: PoolAlgorithm;
+  seed: number | bigint;
+  inputs: Array<string | Uint8Array>;
+}
+
+/** @internal Message sent back by a worker */
+export interface WorkerReply {
+  id: number;
+  words?: Uint32Array;
+  error?: string;
+}
+
+/**
+ * Options for createHashPool()
+ */
+export interface HashPoolOptions {
+  /**
+   * Number of worker threads (default: available parallelism minus one,
+   * at least 1). 0 hashes on the calling thread.
+   */
+  size?: number;
+  /** Maximum keys sent to a worker per message (default: 1024) */
+  batchSize?: number;
+  /** @internal Worker script to run instead of the bundled one */
+  workerUrl?: URL;
+}
+
+/**
+ * Per-call options for HashPool methods
+ */
+export interface PoolTaskOptions {
+  /** Abort the call; queued work is dropped and the promise rejects */
+  signal?: AbortSignal;
+  /**
+   * Transfer the ArrayBuffers behind binary inputs to the workers
+   * instead of copying them. The caller's arrays become detached. Only
+   * buffers an input spans entirely are transferred, so views into
+   * larger buffers, such as Node's pooled Buffers, are still copied.
+   * Inputs backed by a SharedArrayBuffer are never copied.
+   */
+  transfer?: boolean;
+}
+
+interface Job {
+  words: Uint32Array;
+  width: number;
+  pending: number;
+  settled: boolean;
+  resolve: (words: Uint32Array) => void;
+  reject: (reason: unknown) => void;
+  cleanup: () => void;
+}
+
+interface Task {
+  message: WorkerTask;
+  transfer: ArrayBuffer[];
+  job: Job;
+  offset: number;
+}
+
+interface PoolWorker {
+  worker: Worker;
+  task: Task | null;
+  /** The worker has replied to a message, so its script loaded */
+  ready: boolean;
+}
+
+/**
+ * @internal Batch function per algorithm, shared with the worker. Seeds
+ * are validated before they get here, so x86 seeds are numbers.
+ */
+export const batch: Record<
+  PoolAlgorithm,
+  (inputs: BatchInput, seed: number | bigint) => Uint32Array
+> = {
+  x86_32: (inputs, seed) => hash32Batch(inputs, seed as number),
+  x86_128: (inputs, seed) => hash128Batch(inputs, seed as number),
+  x64_128: hash128x64Batch,
+};
+
+function startWorker(script?: URL): Worker {
+  if (script) {
+    return new Worker(script);
+  }
+  if (!import.meta.url.endsWith('.ts')) {
+    // Builds ship hash-worker.js (ESM) and hash-worker.cjs next to this file
+    const ext = import.meta.url.endsWith('.cjs') ? '.cjs' : '.js';
+    return new Worker(new URL(`./hash-worker${ext}`, import.meta.url));
+  }
+
+  // Running from TypeScript sources (tests, benchmarks). Node 20 does not
+  // apply --import loader hooks inside workers, so register tsx first.
+  const url = new URL('./hash-worker.ts', import.meta.url);
+  return new Worker(
+    `import('tsx/esm/api')
+      .then(({ register }) => register())
+      .then(() => import(${JSON.stringify(url.href)}));`,
+    { eval: true }
+  );
+}
+
+function settle(job: Job, error: unknown): void {
+  if (!job.settled) {
+    job.settled = true;
+    job.cleanup();
+    job.reject(error);
+  }
+}
+
+/**
+ * Hashes many independent inputs across a pool of worker threads. Results
+ * come back in input order. Falls back to hashing on the calling thread
+ * when worker threads cannot be started.
+ */
+export class HashPool {
+  private readonly size: number;
+  private readonly batchSize: number;
+  private readonly workerUrl: URL | undefined;
+  private readonly workers: PoolWorker[] = [];
+  private readonly queue: Task[] = [];
+  private nextId = 0;
+  private closed = false;
+  private inThread: boolean;
+  private loadFailed = false;
+
+  constructor(options?: HashPoolOptions) {
+    this.size = options?.size ?? Math.max(1, availableParallelism() - 1);
+    this.batchSize = options?.batchSize ?? 1024;
+    this.workerUrl = options?.workerUrl;
+    if (!Number.isInteger(this.size) || this.size < 0) {
+      throw new RangeError(`Invalid pool size: ${this.size}`);
+    }
+    if (!Number.isInteger(this.batchSize) || this.batchSize < 1) {
+      throw new RangeError(`Invalid batch size: ${this.batchSize}`);
+    }
+    this.inThread = this.size === 0;
+  }
+
+  /**
+   * MurmurHash3 x86 32-bit of each input, in input order
+   */
+  async hash32(
+    inputs: readonly HashInput[],
+    seed: number = 0,
+    options?: PoolTaskOptions
+  ): Promise<Uint32Array> {
+    checkSeed(seed);
+    return this.run('x86_32', 1, inputs, seed, options);
+  }
+
+  /**
+   * MurmurHash3 x86 128-bit of each input, in input order. The digest type
+   * follows the output and profile options, as with hash128().
+   */
+  hash128<T extends Hash128Options & PoolTaskOptions = {}>(
+    inputs: readonly HashInput[],
+    options?: T
+  ): Promise<Digest128<OutputOf<T, 'x86_128', 'hex'>>[]>;
+  async hash128(
+    inputs: readonly HashInput[],
+    options?: Hash128Options & PoolTaskOptions
+  ): Promise<Digest128[]> {
+    const seed = checkSeed(options?.seed ?? 0);
+    const { output, byteOrder, encoding } = resolveOptions(
+      options,
+      'x86_128',
+      'hex'
+    );
+    const encoded = encodeInputs(inputs, encoding);
+    const words = await this.run('x86_128', 4, encoded, seed, options);
+    return format(words, 4, output, byteOrder);
+  }
+
+  /**
+   * MurmurHash3 x64 128-bit of each input, in input order. The digest type
+   * follows the output and profile options, as with hash128x64().
+   */
+  hash128x64<T extends Hash128x64Options & PoolTaskOptions = {}>(
+    inputs: readonly HashInput[],
+    options?: T
+  ): Promise<Digest128<OutputOf<T, 'x64_128', 'hex'>>[]>;
+  async hash128x64(
+    inputs: readonly HashInput[],
+    options?: Hash128x64Options & PoolTaskOptions
+  ): Promise<Digest128[]> {
+    const seed = options?.seed ?? 0;
+    splitSeed64(seed);
+    const { output, byteOrder, encoding } = resolveOptions(
+      options,
+      'x64_128',
+      'hex'
+    );
+    const encoded = encodeInputs(inputs, encoding);
+    const words = await this.run('x64_128', 4, encoded, seed, options);
+    return format(words, 8, output, byteOrder);
+  }
+
+  /**
+   * Reject outstanding work and terminate all workers
+   */
+  async close(): Promise<void> {
+    if (this.closed) {
+      return;
+    }
+    this.closed = true;
+    const error = new Error('Hash pool is closed');
+    for (const task of this.queue.splice(0)) {
+      settle(task.job, error);
+    }
+    const workers = this.workers.splice(0);
+    for (const entry of workers) {
+      if (entry.task) {
+        settle(entry.task.job, error);
+      }
+    }
+    await Promise.all(workers.map((entry) => entry.worker.terminate()));
+  }
+
+  private run(
+    algorithm: PoolAlgorithm,
+    width: number,
+    inputs: readonly HashInput[],
+    seed: number | bigint,
+    options: PoolTaskOptions | undefined
+  ): Promise<Uint32Array> {
+    const signal = options?.signal;
+    if (this.closed) {
+      return Promise.reject(new Error('Hash pool is closed'));
+    }
+    if (signal?.aborted) {
+      return Promise.reject(signal.reason);
+    }
+    if (this.inThread || inputs.length === 0) {
+      return Promise.resolve(batch[algorithm](inputs, seed));
+    }
+    // Throws for unsupported inputs before any work is queued
+    const views = inputs.map((input) =>
+      typeof input === 'string' ? input : toBytes(input)
+    );
+
+    return new Promise((resolve, reject) => {
+      const onAbort = () => {
+        this.drop(job);
+        settle(job, signal?.reason);
+      };
+      const job: Job = {
+        words: new Uint32Array(inputs.length * width),
+        width,
+        pending: 0,
+        settled: false,
+        resolve,
+        reject,
+        cleanup: () => signal?.removeEventListener('abort', onAbort),
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+
+      const owners = options?.transfer
+        ? bufferOwners(views, this.batchSize)
+        : new Map<ArrayBuffer, number>();
+
+      for (let offset = 0; offset < views.length; offset += this.batchSize) {
+        const slice = views.slice(offset, offset + this.batchSize);
+        const transfer: ArrayBuffer[] = [];
+        owners.forEach((owner, buffer) => {
+          if (owner === offset) {
+            transfer.push(buffer);
+          }
+        });
+        job.pending++;
+        this.queue.push({
+          message: { id: this.nextId++, algorithm, seed, inputs: slice },
+          transfer,
+          job,
+          offset,
+        });
+      }
+      this.dispatch();
+    });
+  }
+
+  /**
+   * Remove a job's queued tasks; tasks already running finish and are ignored
+   */
+  private drop(job: Job): void {
+    for (let i = this.queue.length - 1; i >= 0; i--) {
+      if (this.queue[i].job === job) {
+        this.queue.splice(i, 1);
+      }
+    }
+  }
+
+  private dispatch(): void {
+    while (this.queue.length > 0) {
+      const entry = this.idleWorker();
+      if (entry === null) {
+        break;
+      }
+      const task = this.queue.shift()!;
+      entry.task = task;
+      entry.worker.ref();
+      try {
+        entry.worker.postMessage(task.message, task.transfer);
+      } catch (error) {
+        // Nothing was sent, e.g. an input could not be transferred
+        entry.task = null;
+        entry.worker.unref();
+        this.drop(task.job);
+        settle(task.job, error);
+      }
+    }
+
+    // Workers could not be started: finish the remaining work here
+    if (this.inThread) {
+      for (const task of this.queue.splice(0)) {
+        const { algorithm, inputs, seed } = task.message;
+        this.complete(task, batch[algorithm](inputs, seed));
+      }
+    }
+  }
+
+  private idleWorker(): PoolWorker | null {
+    for (const entry of this.workers) {
+      if (entry.task === null) {
+        return entry;
+      }
+    }
+    if (
+      this.workers.length < this.size &&
+      !this.inThread &&
+      !this.loadFailed
+    ) {
+      try {
+        return this.spawn();
+      } catch {
+        this.inThread = this.workers.length === 0;
+      }
+    }
+    return null;
+  }
+
+  private spawn(): PoolWorker {
+    const entry: PoolWorker = {
+      worker: startWorker(this.workerUrl),
+      task: null,
+      ready: false,
+    };
+    entry.worker.unref();
+
+    entry.worker.on('message', (reply: WorkerReply) => {
+      const task = entry.task;
+      entry.task = null;
+      entry.ready = true;
+      entry.worker.unref();
+      if (task && task.message.id === reply.id) {
+        if (reply.error !== undefined) {
+          settle(task.job, new Error(reply.error));
+        } else {
+          this.complete(task, reply.words!);
+        }
+      }
+      this.dispatch();
+    });
+
+    entry.worker.on('error', (error) => this.retire(entry, error));
+    entry.worker.on('exit', (code) =>
+      this.retire(entry, new Error(`Hash pool worker exited with code ${code}`))
+    );
+
+    this.workers.push(entry);
+    return entry;
+  }
+
+  /**
+   * Remove a worker that failed or exited. 'exit' follows 'error', and
+   * close() removes workers before terminating them, so only the first
+   * call for a worker does anything.
+   */
+  private retire(entry: PoolWorker, error: unknown): void {
+    const index = this.workers.indexOf(entry);
+    if (index === -1) {
+      return;
+    }
+    this.workers.splice(index, 1);
+    const task = entry.task;
+    entry.task = null;
+
+    if (!entry.ready) {
+      // Failing before the first reply means the worker script cannot be
+      // loaded (the 'online' event fires even then). Stop spawning and
+      // hash in-thread once no workers are left.
+      this.loadFailed = true;
+      this.inThread = this.workers.length === 0;
+    }
+    if (task) {
+      if (!entry.ready && task.transfer.length === 0) {
+        this.queue.unshift(task);
+      } else {
+        // A crashed worker fails its task and is replaced on demand.
+        // Transferred inputs are detached and cannot be hashed again.
+        settle(task.job, error);
+      }
+    }
+    this.dispatch();
+  }
+
+  private complete(task: Task, words: Uint32Array): void {
+    const job = task.job;
+    if (job.settled) {
+      return;
+    }
+    job.words.set(words, task.offset * job.width);
+    if (--job.pending === 0) {
+      job.settled = true;
+      job.cleanup();
+      job.resolve(job.words);
+    }
+  }
+}
+
+/**
+ * Map each transferable input buffer to the offset of the only batch that
+ * uses it. Buffers shared by several batches, and buffers no input spans
+ * entirely, are left out and copied. The latter include the pool behind
+ * small Node Buffers, which Node refuses to transfer.
+ */
+function bufferOwners(
+  inputs: ReadonlyArray<string | Uint8Array>,
+  batchSize: number
+): Map<ArrayBuffer, number> {
+  const owners = new Map<ArrayBuffer, number>();
+  const excluded = new Set<ArrayBuffer>();
+  const spanned = new Set<ArrayBuffer>();
+  inputs.forEach((input, i) => {
+    if (typeof input === 'string' || !(input.buffer instanceof ArrayBuffer)) {
+      return;
+    }
+    const offset = i - (i % batchSize);
+    const owner = owners.get(input.buffer);
+    if (owner !== undefined && owner !== offset) {
+      excluded.add(input.buffer);
+    }
+    if (
+      input.byteOffset === 0 &&
+      input.byteLength === input.buffer.byteLength
+    ) {
+      spanned.add(input.buffer);
+    }
+    owners.set(input.buffer, offset);
+  });
+  owners.forEach((_, buffer) => {
+    if (excluded.has(buffer) || !spanned.has(buffer)) {
+      owners.delete(buffer);
+    }
+  });
+  return owners;
+}
+
+/**
+ * Workers encode strings as UTF-8; encode other encodings up front
+ */
+function encodeInputs(
+  inputs: readonly HashInput[],
+  encoding: StringEncoding
+): readonly HashInput[] {
+  if (encoding === 'utf8') {
+    return inputs;
+  }
+  return inputs.map((input) =>
+    typeof input === 'string' ? toBytes(input, encoding).slice() : input
+  );
+}
+
+function format(
+  words: Uint32Array,
+  laneBytes: 4 | 8,
+  output: NonNullable<Hash128x64Options['output']>,
+  byteOrder: NonNullable<Hash128x64Options['byteOrder']>
+): Digest128[] {
+  const results: Digest128[] = [];
+  for (let i = 0; i < words.length; i += 4) {
+    const digest = words.subarray(i, i + 4);
+    results.push(formatDigest128(digest, laneBytes, output, byteOrder));
+  }
+  return results;
+}
+
+/**
+ * Create a worker-thread pool for hashing many inputs in parallel.
+ * Call close() when done.
+ */
+export function createHashPool(options?: HashPoolOptions): HashPool {
+  return new HashPool(options);
+}
@@ -0,0 +1,92 @@
+import { Transform, type TransformCallback } from 'node:stream';
+import type { HashInput } from '../types.ts';
+import { verifyDigest } from '../output.ts';
+import type {
+  IncrementalHasher,
+  HashTransformOptions,
+} from '../transform.ts';
+
+/**
+ * A Node.js Transform that passes chunks through unchanged while hashing
+ * them. When the input ends it emits 'digest' with the digest, before
+ * 'finish' and 'end'.
+ */
+export class HashTransform<D> extends Transform {
+  /**
+   * Resolves with the digest once the input ends. Rejects if the stream
+   * is destroyed first or the digest does not match the expected option.
+   */
+  readonly digest: Promise<D>;
+  private readonly hasher: IncrementalHasher<D>;
+  private readonly expected: D | undefined;
+  private settled = false;
+  private resolveDigest!: (digest: D) => void;
+  private rejectDigest!: (reason: unknown) => void;
+
+  constructor(hasher: IncrementalHasher<D>, options?: HashTransformOptions<D>) {
+    super();
+    this.hasher = hasher;
+    this.expected = options?.expected;
+    this.digest = new Promise<D>((resolve, reject) => {
+      this.resolveDigest = resolve;
+      this.rejectDigest = reject;
+    });
+    // Callers need not await the digest; never report it as unhandled
+    this.digest.catch(() => {});
+  }
+
+  _transform(
+    chunk: HashInput,
+    _encoding: BufferEncoding,
+    callback: TransformCallback
+  ): void {
+    try {
+      this.hasher.update(chunk);
+    } catch (error) {
+      callback(error as Error);
+      return;
+    }
+    callback(null, chunk);
+  }
+
+  _flush(callback: TransformCallback): void {
+    const value = this.hasher.digest();
+    if (this.expected !== undefined) {
+      try {
+        verifyDigest(value, this.expected);
+      } catch (error) {
+        callback(error as Error);
+        return;
+      }
+    }
+    this.settled = true;
+    this.resolveDigest(value);
+    this.emit('digest', value);
+    callback();
+  }
+
+  _destroy(
+    error: Error | null,
+    callback: (error?: Error | null) => void
+  ): void {
+    if (!this.settled) {
+      this.settled = true;
+      this.rejectDigest(
+        error ?? new Error('Stream was destroyed before the input ended')
+      );
+    }
+    callback(error);
+  }
+}
+
+/**
+ * Create a Transform that hashes the chunks flowing through it, for use
+ * with stream.pipeline() or pipe(). Written strings reach the hasher as
+ * UTF-8 Buffers, as with any Transform.
+ */
+export function createHashTransform<D>(
+  hasher: IncrementalHasher<D>,
+  options?: HashTransformOptions<D>
+): HashTransform<D> {
+  return new HashTransform(hasher, options);
+}
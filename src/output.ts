@@ -0,0 +1,195 @@
+import type {
+  ByteOrder,
+  Hash32Output,
+  Hash128x64Output,
+} from './types.ts';
+import {
+  wordsToHex,
+  hexToBigInt,
+  bytesToHex,
+  bytesToBase64,
+} from './encoding.ts';
+
+/**
+ * The value each output format produces
+ */
+export interface DigestTypes {
+  unsigned: number;
+  signed: number;
+  hex: string;
+  bigint: bigint;
+  bytes: Uint8Array;
+  base64: string;
+  base64url: string;
+  pair: [bigint, bigint];
+}
+
+/**
+ * A 128-bit digest in output format O (default: any supported format)
+ */
+export type Digest128<O extends Hash128x64Output = Hash128x64Output> =
+  DigestTypes[O];
+
+/**
+ * A 32-bit digest in output format O (default: any supported format)
+ */
+export type Digest32<O extends Hash32Output = Hash32Output> = DigestTypes[O];
+
+const OUTPUTS_128: readonly string[] = [
+  'hex',
+  'bigint',
+  'bytes',
+  'base64',
+  'base64url',
+  'pair',
+];
+const OUTPUTS_32: readonly string[] = ['unsigned', 'signed', 'hex', 'bytes'];
+
+/**
+ * Throw a TypeError for unsupported output or byteOrder options
+ */
+export function checkOutput(
+  output: string,
+  byteOrder: string,
+  allowed: 'x86_32' | 'x86_128' | 'x64_128'
+): void {
+  const outputs = allowed === 'x86_32' ? OUTPUTS_32 : OUTPUTS_128;
+  if (
+    !outputs.includes(output) ||
+    (output === 'pair' && allowed !== 'x64_128')
+  ) {
+    throw new TypeError(`Unsupported output format for ${allowed}: ${output}`);
+  }
+  if (byteOrder !== 'big' && byteOrder !== 'little') {
+    throw new TypeError(`Unsupported byte order: ${byteOrder}`);
+  }
+}
+
+/**
+ * Serialize the four digest words into 16 bytes. laneBytes is the width
+ * of the algorithm's hash lanes (4 for x86, 8 for x64); little-endian
+ * order reverses the bytes within each lane.
+ */
+function digestBytes(
+  words: Uint32Array,
+  laneBytes: 4 | 8,
+  byteOrder: ByteOrder
+): Uint8Array {
+  const bytes = new Uint8Array(16);
+  for (let i = 0; i < 4; i++) {
+    const word = words[i];
+    bytes[i * 4] = word >>> 24;
+    bytes[i * 4 + 1] = word >>> 16;
+    bytes[i * 4 + 2] = word >>> 8;
+    bytes[i * 4 + 3] = word;
+  }
+  if (byteOrder === 'little') {
+    for (let lane = 0; lane < 16; lane += laneBytes) {
+      bytes.subarray(lane, lane + laneBytes).reverse();
+    }
+  }
+  return bytes;
+}
+
+/**
+ * Convert four 32-bit digest words (in hex digest order) to the requested
+ * output format. With 'little' byte order, bigint output reads the
+ * canonical digest bytes as a little-endian integer.
+ */
+export function formatDigest128<O extends Hash128x64Output>(
+  words: Uint32Array,
+  laneBytes: 4 | 8,
+  output: O,
+  byteOrder: ByteOrder
+): Digest128<O>;
+export function formatDigest128(
+  words: Uint32Array,
+  laneBytes: 4 | 8,
+  output: Hash128x64Output,
+  byteOrder: ByteOrder
+): Digest128 {
+  if (output === 'pair') {
+    return [
+      (BigInt(words[0]) << BigInt(32)) | BigInt(words[1]),
+      (BigInt(words[2]) << BigInt(32)) | BigInt(words[3]),
+    ];
+  }
+  if (byteOrder === 'big' && (output === 'hex' || output === 'bigint')) {
+    const hex = wordsToHex(words);
+    return output === 'hex' ? hex : hexToBigInt(hex);
+  }
+
+  const bytes = digestBytes(words, laneBytes, byteOrder);
+  switch (output) {
+    case 'bytes':
+      return bytes;
+    case 'hex':
+      return bytesToHex(bytes);
+    case 'base64':
+      return bytesToBase64(bytes, false);
+    case 'base64url':
+      return bytesToBase64(bytes, true);
+    case 'bigint':
+      return hexToBigInt(bytesToHex(bytes.reverse()));
+  }
+}
+
+/**
+ * Convert a 32-bit hash to the requested output format
+ */
+export function formatDigest32<O extends Hash32Output>(
+  h: number,
+  output: O,
+  byteOrder: ByteOrder
+): Digest32<O>;
+export function formatDigest32(
+  h: number,
+  output: Hash32Output,
+  byteOrder: ByteOrder
+): Digest32 {
+  switch (output) {
+    case 'unsigned':
+      return h >>> 0;
+    case 'signed':
+      return h | 0;
+  }
+
+  const bytes = new Uint8Array([h >>> 24, h >>> 16, h >>> 8, h]);
+  if (byteOrder === 'little') {
+    bytes.reverse();
+  }
+  return output === 'bytes' ? bytes : bytesToHex(bytes);
+}
+
+function sameDigest(a: unknown, b: unknown): boolean {
+  if (a instanceof Uint8Array && b instanceof Uint8Array) {
+    return a.length === b.length && a.every((byte, i) => byte === b[i]);
+  }
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((value, i) => value === b[i]);
+  }
+  return a === b;
+}
+
+function showDigest(digest: unknown): string {
+  if (digest instanceof Uint8Array) {
+    return bytesToHex(digest);
+  }
+  if (Array.isArray(digest)) {
+    return `[${digest.join(', ')}]`;
+  }
+  return String(digest);
+}
+
+/**
+ * Throw if a digest differs from the expected value. Byte digests and
+ * pairs are compared element by element, other formats with ===.
+ */
+export function verifyDigest(actual: unknown, expected: unknown): void {
+  if (!sameDigest(actual, expected)) {
+    throw new Error(
+      `Digest mismatch: expected ${showDigest(expected)}, ` +
+        `got ${showDigest(actual)}`
+    );
+  }
+}
@@ -0,0 +1,156 @@
+import type { ByteOrder, CompatProfile, StringEncoding } from './types.ts';
+import type { StateAlgorithm } from './state.ts';
+import { checkOutput } from './output.ts';
+
+interface ProfileSpec {
+  output: string;
+  byteOrder: ByteOrder;
+  encoding: StringEncoding;
+}
+
+const SIGNED_UTF8 = {
+  output: 'signed',
+  byteOrder: 'big',
+  encoding: 'utf8',
+} as const;
+const UNSIGNED_UTF8 = {
+  output: 'unsigned',
+  byteOrder: 'big',
+  encoding: 'utf8',
+} as const;
+
+// Kept literal so OutputOf can read each profile's output format
+const PROFILES = {
+  // hash() is signed; hash128() reads hash_bytes() as a little-endian
+  // unsigned integer, for both x64arch=True and x64arch=False
+  mmh3: {
+    x86_32: SIGNED_UTF8,
+    x86_128: { output: 'bigint', byteOrder: 'little', encoding: 'utf8' },
+    x64_128: { output: 'bigint', byteOrder: 'little', encoding: 'utf8' },
+  },
+  // HashCode.asInt() is signed; HashCode.toString() is the canonical
+  // digest bytes in hex. Guava has no x86 128-bit variant.
+  guava: {
+    x86_32: { output: 'signed', byteOrder: 'big', encoding: 'utf16le' },
+    x64_128: { output: 'hex', byteOrder: 'little', encoding: 'utf16le' },
+  },
+  // hashString(s, UTF_8) encodes through String.getBytes(UTF_8), which
+  // replaces lone surrogates with '?'
+  'guava-utf8': {
+    x86_32: { output: 'signed', byteOrder: 'big', encoding: 'utf8-java' },
+    x64_128: { output: 'hex', byteOrder: 'little', encoding: 'utf8-java' },
+  },
+  // Sum32() is a uint32; Sum128() returns the (h1, h2) uint64 pair
+  go: {
+    x86_32: UNSIGNED_UTF8,
+    x64_128: { output: 'pair', byteOrder: 'big', encoding: 'utf8' },
+  },
+  // The out buffer: a native uint32, or 16 bytes in memory order
+  smhasher: {
+    x86_32: UNSIGNED_UTF8,
+    x86_128: { output: 'bytes', byteOrder: 'little', encoding: 'utf8' },
+    x64_128: { output: 'bytes', byteOrder: 'little', encoding: 'utf8' },
+  },
+} as const satisfies Record<
+  CompatProfile,
+  Partial<Record<StateAlgorithm, ProfileSpec>>
+>;
+
+type Profiles = typeof PROFILES;
+
+/**
+ * Type of option K in options type T, or undefined if T has no such option
+ */
+type OptionOf<T, K extends string> = T extends unknown
+  ? K extends keyof T
+    ? T[K]
+    : undefined
+  : never;
+
+/**
+ * Output format of profile P for algorithm A
+ */
+type ProfileOutput<P, A extends string> = P extends keyof Profiles
+  ? A extends keyof Profiles[P]
+    ? Profiles[P][A] extends { output: infer O }
+      ? O
+      : never
+    : never
+  : never;
+
+/**
+ * Output format selected by options of type T for algorithm A, mirroring
+ * resolveOptions(): the output option if given, otherwise the profile's
+ * format, otherwise default D. Options typed with the full unions, such as
+ * Hash128Options, give the union of every format they could select.
+ */
+export type OutputOf<T, A extends string, D extends string> =
+  | Exclude<OptionOf<T, 'output'>, undefined>
+  | (undefined extends OptionOf<T, 'output'>
+      ?
+          | (undefined extends OptionOf<T, 'profile'> ? D : never)
+          | ProfileOutput<OptionOf<T, 'profile'>, A>
+      : never);
+
+/**
+ * Output settings after applying a compatibility profile
+ */
+export interface ResolvedOptions<O extends string> {
+  output: O;
+  byteOrder: ByteOrder;
+  encoding: StringEncoding;
+}
+
+const ENCODINGS: readonly string[] = [
+  'utf8',
+  'utf16le',
+  'latin1',
+  'utf8-java',
+];
+
+/**
+ * Combine a profile's settings with explicit output, byteOrder and
+ * encoding options and validate the result. Throws a TypeError for unknown
+ * profiles and encodings and for profiles that have no equivalent of the
+ * given algorithm.
+ */
+export function resolveOptions<O extends string>(
+  options:
+    | {
+        output?: O;
+        byteOrder?: ByteOrder;
+        encoding?: StringEncoding;
+        profile?: CompatProfile;
+      }
+    | undefined,
+  algorithm: StateAlgorithm,
+  defaultOutput: O
+): ResolvedOptions<O> {
+  let spec: ProfileSpec | undefined;
+  if (options?.profile !== undefined) {
+    const profile: Partial<Record<StateAlgorithm, ProfileSpec>> | undefined =
+      Object.prototype.hasOwnProperty.call(PROFILES, options.profile)
+        ? PROFILES[options.profile]
+        : undefined;
+    if (profile === undefined) {
+      throw new TypeError(`Unknown compatibility profile: ${options.profile}`);
+    }
+    spec = profile[algorithm];
+    if (spec === undefined) {
+      throw new TypeError(
+        `Compatibility profile ${options.profile} has no ${algorithm} hash`
+      );
+    }
+  }
+
+  const resolved = {
+    output: options?.output ?? ((spec?.output ?? defaultOutput) as O),
+    byteOrder: options?.byteOrder ?? spec?.byteOrder ?? 'big',
+    encoding: options?.encoding ?? spec?.encoding ?? 'utf8',
+  };
+  checkOutput(resolved.output, resolved.byteOrder, algorithm);
+  if (!ENCODINGS.includes(resolved.encoding)) {
+    throw new TypeError(`Unknown string encoding: ${resolved.encoding}`);
+  }
+  return resolved;
+}
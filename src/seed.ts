@@ -0,0 +1,83 @@
+const MAX_SEED_64 = 0xffffffffffffffffn;
+
+function describe(seed: unknown): string {
+  return typeof seed === 'bigint' ? `${seed}n` : String(seed);
+}
+
+/**
+ * Validate a 32-bit seed: an integer from 0 to 2^32 - 1. Throws a
+ * RangeError for anything else instead of letting bitwise operators
+ * coerce it; wrapSeed() converts other integers explicitly.
+ */
+export function checkSeed(seed: number): number {
+  if (typeof seed !== 'number') {
+    throw new TypeError(`Seed must be a number, got ${typeof seed}`);
+  }
+  if (seed >>> 0 !== seed) {
+    throw new RangeError(
+      `Invalid seed: ${seed} (expected an integer from 0 to 4294967295)`
+    );
+  }
+  return seed;
+}
+
+/**
+ * Validate a 32-bit seed that may also be given as a signed int32, from
+ * -2^31 to 2^32 - 1, as when one hash seeds the next (Spark chains
+ * columns this way). Throws a RangeError for anything else.
+ */
+export function checkInt32Seed(seed: number): number {
+  if (typeof seed !== 'number') {
+    throw new TypeError(`Seed must be a number, got ${typeof seed}`);
+  }
+  if (seed >>> 0 !== seed && (seed | 0) !== seed) {
+    throw new RangeError(
+      `Invalid seed: ${seed} ` +
+        '(expected an integer from -2147483648 to 4294967295)'
+    );
+  }
+  return seed;
+}
+
+/**
+ * Validate a 64-bit seed and split it into [high, low] 32-bit words.
+ * Bigints may span 0 to 2^64 - 1; numbers must be safe integers, since
+ * larger ones cannot be represented exactly.
+ */
+export function splitSeed64(seed: number | bigint): [number, number] {
+  if (typeof seed === 'number') {
+    if (!Number.isSafeInteger(seed) || seed < 0) {
+      throw new RangeError(
+        `Invalid seed: ${seed} (expected an integer from 0 to 2^53 - 1, ` +
+          'or a bigint up to 2^64 - 1)'
+      );
+    }
+    return [Math.floor(seed / 0x100000000), seed >>> 0];
+  }
+  if (typeof seed !== 'bigint') {
+    throw new TypeError(`Seed must be a number or bigint, got ${typeof seed}`);
+  }
+  if (seed < 0n || seed > MAX_SEED_64) {
+    throw new RangeError(
+      `Invalid seed: ${describe(seed)} (expected an integer from 0 to 2^64 - 1)`
+    );
+  }
+  return [Number(seed >> 32n), Number(seed & 0xffffffffn)];
+}
+
+/**
+ * Reduce any integer seed modulo 2^32, the way C's uint32_t conversion
+ * and JavaScript's >>> 0 do: wrapSeed(-1) is 4294967295 and
+ * wrapSeed(2 ** 32 + 5) is 5. Throws a RangeError for non-integers, NaN
+ * and infinities, which have no meaningful wrapped value. For 64-bit
+ * seeds use BigInt.asUintN(64, seed).
+ */
+export function wrapSeed(seed: number | bigint): number {
+  if (typeof seed === 'bigint') {
+    return Number(BigInt.asUintN(32, seed));
+  }
+  if (!Number.isInteger(seed)) {
+    throw new RangeError(`Cannot wrap seed ${describe(seed)}: not an integer`);
+  }
+  return seed >>> 0;
+}
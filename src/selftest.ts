@@ -0,0 +1,127 @@
+import type { HashInput } from './types.ts';
+import { hash32 } from './hash32.ts';
+import { hash128 } from './hash128.ts';
+import { hash128x64 } from './hash128x64.ts';
+import { loadWasm } from './wasm/index.ts';
+import { setBackend, selectedBackend, type Backend } from './backend.ts';
+
+/**
+ * Outcome of one algorithm on one backend. 'skipped' means the backend is
+ * not available in this runtime.
+ */
+export interface SelfTestResult {
+  algorithm: 'x86_32' | 'x86_128' | 'x64_128';
+  backend: Backend;
+  status: 'passed' | 'failed' | 'skipped';
+  /** SMHasher verification value */
+  expected: number;
+  /** Computed verification value, unless skipped or an error was thrown */
+  actual?: number;
+  /** Error thrown while hashing */
+  error?: unknown;
+}
+
+/**
+ * Result of selfTest()
+ */
+export interface SelfTestReport {
+  /** No result failed */
+  passed: boolean;
+  results: SelfTestResult[];
+}
+
+/** Canonical (little-endian) digest bytes of input with seed */
+type DigestBytes = (input: HashInput, seed: number) => Uint8Array;
+
+const ALGORITHMS: Array<{
+  algorithm: SelfTestResult['algorithm'];
+  expected: number;
+  digest: DigestBytes;
+}> = [
+  {
+    algorithm: 'x86_32',
+    expected: 0xb0f57ee3,
+    digest: (input, seed) =>
+      hash32(input, { seed, output: 'bytes', byteOrder: 'little' }),
+  },
+  {
+    algorithm: 'x86_128',
+    expected: 0xb3ece62a,
+    digest: (input, seed) =>
+      hash128(input, { seed, output: 'bytes', byteOrder: 'little' }),
+  },
+  {
+    algorithm: 'x64_128',
+    expected: 0x6384ba69,
+    digest: (input, seed) =>
+      hash128x64(input, { seed, output: 'bytes', byteOrder: 'little' }),
+  },
+];
+
+/**
+ * SMHasher's VerificationTest(): hash keys {0}, {0, 1}, ... {0, ..., 254}
+ * of lengths 0 to 255 with seed 256 - length, hash the concatenated
+ * digests with seed 0, and read the first 4 bytes as little-endian.
+ */
+function verificationValue(digest: DigestBytes): number {
+  const key = new Uint8Array(256);
+  let hashes: Uint8Array | undefined;
+  for (let i = 0; i < 256; i++) {
+    key[i] = i;
+    const h = digest(key.subarray(0, i), 256 - i);
+    if (hashes === undefined) {
+      hashes = new Uint8Array(256 * h.length);
+    }
+    hashes.set(h, i * h.length);
+  }
+  const final = digest(hashes!, 0);
+  return (
+    (final[0] | (final[1] << 8) | (final[2] << 16) | (final[3] << 24)) >>> 0
+  );
+}
+
+/**
+ * Check hash32(), hash128() and hash128x64() on each backend against the
+ * verification values of the SMHasher reference implementation. Run it
+ * once at startup to catch a runtime or bundler that miscompiles the
+ * hash functions; it takes a few milliseconds.
+ *
+ * The backend choice made with setBackend() is restored afterwards.
+ */
+export function selfTest(): SelfTestReport {
+  const previous = selectedBackend();
+  const results: SelfTestResult[] = [];
+  try {
+    for (const backend of ['js', 'wasm'] as const) {
+      const available = backend === 'js' || loadWasm() !== null;
+      if (available) {
+        setBackend(backend);
+      }
+      for (const { algorithm, expected, digest } of ALGORITHMS) {
+        if (!available) {
+          results.push({ algorithm, backend, status: 'skipped', expected });
+          continue;
+        }
+        try {
+          const actual = verificationValue(digest);
+          const status = actual === expected ? 'passed' : 'failed';
+          results.push({ algorithm, backend, status, expected, actual });
+        } catch (error) {
+          results.push({
+            algorithm,
+            backend,
+            status: 'failed',
+            expected,
+            error,
+          });
+        }
+      }
+    }
+  } finally {
+    setBackend(previous);
+  }
+  return {
+    passed: results.every((result) => result.status !== 'failed'),
+    results,
+  };
+}
@@ -0,0 +1,229 @@
+import type { HashInput } from './types.ts';
+import { toBytes } from './encoding.ts';
+import { mixBlocks, finalize } from './hash32.ts';
+import { checkInt32Seed } from './seed.ts';
+
+/**
+ * Seed used by Spark SQL's hash() function and bucketing
+ */
+const SPARK_SEED = 42;
+
+/**
+ * Spark SQL primitive types. date is an int (days since epoch) and
+ * timestamp a long (microseconds since epoch), as Spark stores them.
+ */
+export type SparkPrimitiveType =
+  | 'boolean'
+  | 'byte'
+  | 'short'
+  | 'int'
+  | 'date'
+  | 'long'
+  | 'timestamp'
+  | 'float'
+  | 'double'
+  | 'string'
+  | 'binary';
+
+/**
+ * A Spark SQL data type: a primitive or an array of another type
+ */
+export type SparkDataType = SparkPrimitiveType | { elementType: SparkDataType };
+
+/**
+ * A typed column value. null and undefined values leave the hash unchanged,
+ * as Spark does for SQL NULL.
+ */
+export interface SparkColumn {
+  type: SparkDataType;
+  value: unknown;
+}
+
+// Scratch block for typed values
+const block = new Uint8Array(8);
+const view = new DataView(block.buffer);
+
+const INT_RANGES = {
+  byte: 0x80,
+  short: 0x8000,
+  int: 0x80000000,
+};
+
+function checkInt(value: number, type: keyof typeof INT_RANGES): void {
+  const limit = INT_RANGES[type];
+  if (!Number.isInteger(value) || value < -limit || value >= limit) {
+    throw new RangeError(`Invalid Spark ${type} value: ${value}`);
+  }
+}
+
+function hashBlock(seed: number, words: number, length: number): number {
+  const h1 = mixBlocks(seed, block, 0, words);
+  return finalize(h1, block, 0, 0, length) | 0;
+}
+
+/**
+ * Murmur3_x86_32.hashInt(): a 32-bit int mixed as a single block
+ */
+export function sparkHashInt(value: number, seed: number = SPARK_SEED): number {
+  checkInt32Seed(seed);
+  checkInt(value, 'int');
+  view.setInt32(0, value, true);
+  return hashBlock(seed, 1, 4);
+}
+
+/**
+ * Murmur3_x86_32.hashLong(): the low then the high 32 bits of a long
+ */
+export function sparkHashLong(
+  value: bigint | number,
+  seed: number = SPARK_SEED
+): number {
+  checkInt32Seed(seed);
+  if (typeof value === 'number' && !Number.isSafeInteger(value)) {
+    throw new RangeError(`Invalid Spark long value: ${value}`);
+  }
+  const long = BigInt(value);
+  if (BigInt.asIntN(64, long) !== long) {
+    throw new RangeError(`Invalid Spark long value: ${value}`);
+  }
+  view.setBigInt64(0, long, true);
+  return hashBlock(seed, 2, 8);
+}
+
+/**
+ * Spark's hash of a FloatType value: -0.0 hashes like 0, NaN is
+ * canonicalized, everything else hashes its IEEE 754 bits as an int.
+ */
+export function sparkHashFloat(
+  value: number,
+  seed: number = SPARK_SEED
+): number {
+  checkInt32Seed(seed);
+  if (value === 0) {
+    return sparkHashInt(0, seed);
+  }
+  if (Number.isNaN(value)) {
+    view.setInt32(0, 0x7fc00000, true);
+  } else {
+    view.setFloat32(0, value, true);
+  }
+  return hashBlock(seed, 1, 4);
+}
+
+/**
+ * Spark's hash of a DoubleType value: -0.0 hashes like 0, NaN is
+ * canonicalized, everything else hashes its IEEE 754 bits as a long.
+ */
+export function sparkHashDouble(
+  value: number,
+  seed: number = SPARK_SEED
+): number {
+  checkInt32Seed(seed);
+  if (value === 0) {
+    return sparkHashLong(0, seed);
+  }
+  if (Number.isNaN(value)) {
+    view.setUint32(0, 0, true);
+    view.setUint32(4, 0x7ff80000, true);
+  } else {
+    view.setFloat64(0, value, true);
+  }
+  return hashBlock(seed, 2, 8);
+}
+
+/**
+ * Murmur3_x86_32.hashUnsafeBytes(), used by Spark for strings (UTF-8) and
+ * binary values. Unlike standard MurmurHash3, each trailing byte is
+ * sign-extended and mixed as a full block.
+ */
+export function sparkHashBytes(
+  input: HashInput,
+  seed: number = SPARK_SEED
+): number {
+  checkInt32Seed(seed);
+  const bytes = toBytes(input);
+  const length = bytes.length;
+  const aligned = length - (length & 3);
+  let h1 = mixBlocks(seed, bytes, 0, aligned >>> 2);
+  for (let i = aligned; i < length; i++) {
+    view.setInt32(0, (bytes[i] << 24) >> 24, true);
+    h1 = mixBlocks(h1, block, 0, 1);
+  }
+  return finalize(h1, block, 0, 0, length) | 0;
+}
+
+/**
+ * Hash one value of the given type, chaining from seed
+ */
+function hashValue(value: unknown, type: SparkDataType, seed: number): number {
+  if (value === null || value === undefined) {
+    return seed;
+  }
+  if (typeof type === 'object') {
+    if (!Array.isArray(value)) {
+      throw new TypeError('Spark array value must be an array');
+    }
+    let hash = seed;
+    for (const element of value) {
+      hash = hashValue(element, type.elementType, hash);
+    }
+    return hash;
+  }
+
+  switch (type) {
+    case 'boolean':
+      return sparkHashInt(value ? 1 : 0, seed);
+    case 'byte':
+    case 'short':
+      checkInt(value as number, type);
+      return sparkHashInt(value as number, seed);
+    case 'int':
+    case 'date':
+      return sparkHashInt(value as number, seed);
+    case 'long':
+    case 'timestamp':
+      return sparkHashLong(value as bigint | number, seed);
+    case 'float':
+      return sparkHashFloat(value as number, seed);
+    case 'double':
+      return sparkHashDouble(value as number, seed);
+    case 'string':
+    case 'binary':
+      return sparkHashBytes(value as HashInput, seed);
+    default:
+      throw new TypeError(`Unsupported Spark type: ${type}`);
+  }
+}
+
+/**
+ * Spark SQL hash(col1, col2, ...): each column's hash is the seed for the
+ * next, starting from 42. Arrays chain their elements the same way.
+ * Seeds here and in the sparkHash*() primitives may be signed, like the
+ * hashes they chain from; other non-int32 values throw a RangeError.
+ */
+export function sparkHash(
+  columns: readonly SparkColumn[],
+  seed: number = SPARK_SEED
+): number {
+  checkInt32Seed(seed);
+  let hash = seed;
+  for (const column of columns) {
+    hash = hashValue(column.value, column.type, hash);
+  }
+  return hash;
+}
+
+/**
+ * Bucket id Spark assigns to a row when writing a bucketed table:
+ * pmod(hash(bucket columns), numBuckets).
+ */
+export function sparkBucketId(
+  columns: readonly SparkColumn[],
+  numBuckets: number
+): number {
+  if (!Number.isInteger(numBuckets) || numBuckets < 1) {
+    throw new RangeError(`Invalid number of buckets: ${numBuckets}`);
+  }
+  const hash = sparkHash(columns);
+  return ((hash % numBuckets) + numBuckets) % numBuckets;
+}
@@ -0,0 +1,245 @@
+/**
+ * Serialized streaming hasher state.
+ *
+ * Layout (little-endian):
+ *
+ *   0  magic "MMH3"
+ *   4  format version
+ *   5  algorithm id
+ *   6  output format (bits 0-3: format id, bits 4-5: string encoding id,
+ *      bit 6: set when a seed high word follows the lanes, bit 7: set for
+ *      little-endian byte order)
+ *   7  tail length
+ *   8  seed (uint32)
+ *  12  total length (uint64)
+ *  20  state lanes (uint32 each, count fixed per algorithm)
+ *   …  seed high word (uint32, only with a 64-bit seed)
+ *   …  pending tail bytes
+ *   …  FNV-1a checksum of everything before it (uint32)
+ */
+
+import type { ByteOrder, StringEncoding } from './types.ts';
+
+const MAGIC = [0x4d, 0x4d, 0x48, 0x33]; // "MMH3"
+const VERSION = 1;
+const HEADER_SIZE = 20;
+const CHECKSUM_SIZE = 4;
+
+const OUTPUTS_128 = ['hex', 'bigint', 'bytes', 'base64', 'base64url'] as const;
+
+const ALGORITHMS = {
+  x86_32: {
+    id: 1,
+    lanes: 1,
+    blockSize: 4,
+    outputs: ['unsigned', 'signed', 'hex', 'bytes'],
+  },
+  x86_128: { id: 2, lanes: 4, blockSize: 16, outputs: OUTPUTS_128 },
+  x64_128: {
+    id: 3,
+    lanes: 4,
+    blockSize: 16,
+    outputs: [...OUTPUTS_128, 'pair'],
+  },
+} as const;
+
+const OUTPUT_FORMATS = [
+  'hex',
+  'bigint',
+  'bytes',
+  'base64',
+  'base64url',
+  'pair',
+  'unsigned',
+  'signed',
+] as const;
+
+const ENCODINGS = ['utf8', 'utf16le', 'latin1', 'utf8-java'] as const;
+
+const OUTPUT_MASK = 0x0f;
+const ENCODING_SHIFT = 4;
+const ENCODING_MASK = 0x03;
+const SEED_HIGH_FLAG = 0x40;
+const LITTLE_ENDIAN_FLAG = 0x80;
+
+/**
+ * Algorithm identifier stored in a serialized state
+ */
+export type StateAlgorithm = keyof typeof ALGORITHMS;
+
+/**
+ * Output format stored in a serialized state
+ */
+export type StateOutput = (typeof OUTPUT_FORMATS)[number];
+
+/**
+ * Snapshot of a streaming hasher's internals
+ */
+export interface StreamState {
+  algorithm: StateAlgorithm;
+  output: StateOutput;
+  byteOrder: ByteOrder;
+  encoding: StringEncoding;
+  seed: number;
+  /** High word of a 64-bit x64_128 seed; 0 or omitted for 32-bit seeds */
+  seedHigh?: number;
+  lanes: number[];
+  tail: Uint8Array;
+  totalLength: number;
+}
+
+/**
+ * FNV-1a 32-bit, used only to detect corrupt state blobs
+ */
+function checksum(bytes: Uint8Array, end: number): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < end; i++) {
+    h ^= bytes[i];
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+function invalid(reason: string): Error {
+  return new Error(`Invalid hash state: ${reason}`);
+}
+
+/**
+ * Serialize a stream state into a compact, versioned byte blob
+ */
+export function encodeState(state: StreamState): Uint8Array {
+  const spec = ALGORITHMS[state.algorithm];
+  const tailLength = state.tail.length;
+  const seedHigh = state.seedHigh ?? 0;
+  const seedSize = seedHigh !== 0 ? 4 : 0;
+  const size =
+    HEADER_SIZE + spec.lanes * 4 + seedSize + tailLength + CHECKSUM_SIZE;
+  const bytes = new Uint8Array(size);
+  const view = new DataView(bytes.buffer);
+
+  bytes.set(MAGIC, 0);
+  bytes[4] = VERSION;
+  bytes[5] = spec.id;
+  bytes[6] =
+    OUTPUT_FORMATS.indexOf(state.output) |
+    (ENCODINGS.indexOf(state.encoding) << ENCODING_SHIFT) |
+    (seedSize !== 0 ? SEED_HIGH_FLAG : 0) |
+    (state.byteOrder === 'little' ? LITTLE_ENDIAN_FLAG : 0);
+  bytes[7] = tailLength;
+  view.setUint32(8, state.seed >>> 0, true);
+  view.setUint32(12, state.totalLength >>> 0, true);
+  view.setUint32(16, Math.floor(state.totalLength / 0x100000000), true);
+
+  let offset = HEADER_SIZE;
+  for (let i = 0; i < spec.lanes; i++, offset += 4) {
+    view.setUint32(offset, state.lanes[i] >>> 0, true);
+  }
+  if (seedSize !== 0) {
+    view.setUint32(offset, seedHigh >>> 0, true);
+    offset += seedSize;
+  }
+  bytes.set(state.tail, offset);
+  offset += tailLength;
+
+  view.setUint32(offset, checksum(bytes, offset), true);
+  return bytes;
+}
+
+/**
+ * Parse and validate a state blob produced by encodeState().
+ * Throws if the blob is truncated, corrupt, from an unknown format
+ * version, was exported from a different algorithm, or names an output
+ * format the algorithm does not support.
+ */
+export function decodeState(
+  bytes: Uint8Array,
+  algorithm: StateAlgorithm
+): StreamState {
+  if (!(bytes instanceof Uint8Array)) {
+    throw new TypeError('Hash state must be a Uint8Array');
+  }
+  if (bytes.length < HEADER_SIZE + CHECKSUM_SIZE) {
+    throw invalid('truncated');
+  }
+  for (let i = 0; i < MAGIC.length; i++) {
+    if (bytes[i] !== MAGIC[i]) {
+      throw invalid('not a murmur-hash state');
+    }
+  }
+  if (bytes[4] !== VERSION) {
+    throw invalid(`unsupported format version ${bytes[4]}`);
+  }
+
+  const spec = ALGORITHMS[algorithm];
+  const stored = (Object.keys(ALGORITHMS) as StateAlgorithm[]).find(
+    (name) => ALGORITHMS[name].id === bytes[5]
+  );
+  if (stored === undefined) {
+    throw invalid(`unknown algorithm id ${bytes[5]}`);
+  }
+  if (stored !== algorithm) {
+    throw invalid(`state is for ${stored}, not ${algorithm}`);
+  }
+
+  const tailLength = bytes[7];
+  const seedSize = bytes[6] & SEED_HIGH_FLAG ? 4 : 0;
+  const size =
+    HEADER_SIZE + spec.lanes * 4 + seedSize + tailLength + CHECKSUM_SIZE;
+  if (bytes.length < size) {
+    throw invalid('truncated');
+  }
+  if (bytes.length > size) {
+    throw invalid('unexpected trailing bytes');
+  }
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const checksumOffset = size - CHECKSUM_SIZE;
+  if (view.getUint32(checksumOffset, true) !== checksum(bytes, checksumOffset)) {
+    throw invalid('checksum mismatch');
+  }
+
+  const output = OUTPUT_FORMATS[bytes[6] & OUTPUT_MASK];
+  const encoding = ENCODINGS[(bytes[6] >>> ENCODING_SHIFT) & ENCODING_MASK];
+  if (output === undefined || encoding === undefined) {
+    throw invalid(`unknown output format id ${bytes[6]}`);
+  }
+  if (!(spec.outputs as readonly string[]).includes(output)) {
+    throw invalid(`output format ${output} is not valid for ${algorithm}`);
+  }
+  const byteOrder = bytes[6] & LITTLE_ENDIAN_FLAG ? 'little' : 'big';
+
+  const totalLength =
+    view.getUint32(12, true) + view.getUint32(16, true) * 0x100000000;
+  if (
+    tailLength >= spec.blockSize ||
+    totalLength % spec.blockSize !== tailLength
+  ) {
+    throw invalid('tail length does not match total length');
+  }
+
+  const lanes: number[] = [];
+  let offset = HEADER_SIZE;
+  for (let i = 0; i < spec.lanes; i++, offset += 4) {
+    lanes.push(view.getInt32(offset, true));
+  }
+  let seedHigh = 0;
+  if (seedSize !== 0) {
+    seedHigh = view.getUint32(offset, true);
+    offset += seedSize;
+    if (algorithm !== 'x64_128' || seedHigh === 0) {
+      throw invalid('unexpected 64-bit seed');
+    }
+  }
+
+  return {
+    algorithm,
+    output,
+    byteOrder,
+    encoding,
+    seed: view.getUint32(8, true),
+    seedHigh,
+    lanes,
+    tail: bytes.slice(offset, offset + tailLength),
+    totalLength,
+  };
+}
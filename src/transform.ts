@@ -0,0 +1,88 @@
+import type { HashInput } from './types.ts';
+import { verifyDigest } from './output.ts';
+
+/**
+ * A streaming hasher whose digest() returns D, such as Hash32Stream,
+ * Hash128Stream or Hash128x64Stream
+ */
+export interface IncrementalHasher<D> {
+  update(input: HashInput): unknown;
+  digest(): D;
+}
+
+/**
+ * Options for hashing transforms
+ */
+export interface HashTransformOptions<D> {
+  /**
+   * Fail the stream when the input ends if its digest differs from this
+   * value, which must use the hasher's output format
+   */
+  expected?: D;
+}
+
+/**
+ * A TransformStream that passes chunks through unchanged while hashing
+ * them. C is the chunk type (default: Uint8Array).
+ */
+export class HashTransformStream<
+  D,
+  C extends HashInput = Uint8Array,
+> extends TransformStream<C, C> {
+  /**
+   * Resolves with the digest once the writable side closes. Rejects if
+   * the stream errors or is cancelled, or if the digest does not match
+   * the expected option.
+   */
+  readonly digest: Promise<D>;
+
+  constructor(hasher: IncrementalHasher<D>, options?: HashTransformOptions<D>) {
+    let resolve!: (digest: D) => void;
+    let reject!: (reason: unknown) => void;
+    const digest = new Promise<D>((res, rej) => {
+      resolve = res;
+      reject = rej;
+    });
+    // Callers need not await the digest; never report it as unhandled
+    digest.catch(() => {});
+
+    super({
+      transform(chunk, controller) {
+        try {
+          hasher.update(chunk);
+        } catch (error) {
+          reject(error);
+          throw error;
+        }
+        controller.enqueue(chunk);
+      },
+      flush() {
+        const value = hasher.digest();
+        if (options?.expected !== undefined) {
+          try {
+            verifyDigest(value, options.expected);
+          } catch (error) {
+            reject(error);
+            throw error;
+          }
+        }
+        resolve(value);
+      },
+      cancel(reason) {
+        reject(reason);
+      },
+    });
+    this.digest = digest;
+  }
+}
+
+/**
+ * Create a TransformStream that hashes the chunks flowing through it, for
+ * use with pipeThrough().
+ */
+export function createHashTransformStream<D, C extends HashInput = Uint8Array>(
+  hasher: IncrementalHasher<D>,
+  options?: HashTransformOptions<D>
+): HashTransformStream<D, C> {
+  return new HashTransformStream<D, C>(hasher, options);
+}
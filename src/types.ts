@@ -1,19 +1,140 @@
 /**
  * Output format for 128-bit hash functions
  */
-export type HashOutput = 'hex' | 'bigint';
+export type HashOutput = 'hex' | 'bigint' | 'bytes' | 'base64' | 'base64url';
+
+/**
+ * Output format for hash128x64(). 'pair' returns the two 64-bit halves
+ * [h1, h2] as unsigned bigints.
+ */
+export type Hash128x64Output = HashOutput | 'pair';
+
+/**
+ * Output format for hash32()
+ */
+export type Hash32Output = 'unsigned' | 'signed' | 'hex' | 'bytes';
+
+/**
+ * Byte order of digest bytes and strings. 'big' (the default) writes each
+ * hash lane most significant byte first, matching the classic hex output.
+ * 'little' is the canonical MurmurHash3 memory layout produced by the C
+ * reference implementation.
+ */
+export type ByteOrder = 'big' | 'little';
+
+/**
+ * How strings are turned into bytes before hashing:
+ * - 'utf8': UTF-8; lone surrogates become U+FFFD (EF BF BD), as with
+ *   TextEncoder and Node's Buffer.from(s)
+ * - 'utf16le': each UTF-16 code unit as two little-endian bytes, lone
+ *   surrogates included, as Java's hashUnencodedChars() does
+ * - 'latin1': the low byte of each code unit, as Node's
+ *   Buffer.from(s, 'latin1') does
+ * - 'utf8-java': UTF-8 with lone surrogates as '?' (3F), as Java's
+ *   String.getBytes(UTF_8) does
+ */
+export type StringEncoding = 'utf8' | 'utf16le' | 'latin1' | 'utf8-java';
+
+/**
+ * Compatibility profile matching another MurmurHash3 implementation:
+ * - 'mmh3': Python mmh3 (signed hash(), unsigned hash128())
+ * - 'guava': Guava murmur3_32_fixed / murmur3_128 with hashUnencodedChars()
+ * - 'guava-utf8': the same, with hashString(s, UTF_8)
+ * - 'go': github.com/spaolacci/murmur3 and twmb/murmur3
+ * - 'smhasher': the C++ reference implementation in SMHasher
+ */
+export type CompatProfile = 'mmh3' | 'guava' | 'guava-utf8' | 'go' | 'smhasher';
 
 /**
  * Options for 128-bit hash functions
  */
 export interface Hash128Options {
-  /** Seed value (default: 0) */
+  /** Seed, an integer from 0 to 2^32 - 1 (default: 0) */
   seed?: number;
   /** Output format (default: 'hex') */
   output?: HashOutput;
+  /** Byte order for hex, bytes, base64 and bigint output (default: 'big') */
+  byteOrder?: ByteOrder;
+  /** String encoding (default: 'utf8') */
+  encoding?: StringEncoding;
+  /**
+   * Match another implementation's output format, byte order and string
+   * encoding. Explicit options take precedence.
+   */
+  profile?: CompatProfile;
 }
 
+/**
+ * Options for hash128x64()
+ */
+export interface Hash128x64Options
+  extends Omit<Hash128Options, 'seed' | 'output'> {
+  /**
+   * Seed value (default: 0). A bigint seed spans the full 64 bits, like
+   * the uint64_t seed of C++ MurmurHash3_x64_128 variants; a number seed
+   * is the same as the bigint with the same value.
+   */
+  seed?: number | bigint;
+  /** Output format (default: 'hex') */
+  output?: Hash128x64Output;
+}
+
+/**
+ * Output format for murmur64a()
+ */
+export type Murmur64AOutput = 'hex' | 'bigint';
+
+/**
+ * Options for murmur64a()
+ */
+export interface Murmur64AOptions {
+  /** 64-bit seed (default: 0) */
+  seed?: number | bigint;
+  /** Output format (default: 'hex') */
+  output?: Murmur64AOutput;
+}
+
+/**
+ * Options for hash32()
+ */
+export interface Hash32Options {
+  /** Seed, an integer from 0 to 2^32 - 1 (default: 0) */
+  seed?: number;
+  /** Output format (default: 'unsigned') */
+  output?: Hash32Output;
+  /** Byte order for hex and bytes output (default: 'big') */
+  byteOrder?: ByteOrder;
+  /** String encoding (default: 'utf8') */
+  encoding?: StringEncoding;
+  /**
+   * Match another implementation's output format and string encoding.
+   * Explicit options take precedence.
+   */
+  profile?: CompatProfile;
+}
+
+/**
+ * Binary data accepted by hash functions. Views (TypedArrays, DataView,
+ * Node Buffer) are hashed over their exact byte range without copying.
+ */
+export type BinaryInput = ArrayBuffer | SharedArrayBuffer | ArrayBufferView;
+
 /**
  * Input type for hash functions
  */
-export type HashInput = string | Uint8Array;
+export type HashInput = string | BinaryInput;
+
+/**
+ * Keys packed back to back in a single buffer. Key i spans
+ * data[offsets[i], offsets[i + 1]), so offsets has one more entry than
+ * there are keys.
+ */
+export interface PackedInput {
+  data: Uint8Array;
+  offsets: ArrayLike<number>;
+}
+
+/**
+ * Input type for batch hash functions
+ */
+export type BatchInput = readonly HashInput[] | PackedInput;
@@ -1,6 +1,8 @@
-import { hash32 } from './hash32.ts';
+import { hash32, compute as compute32 } from './hash32.ts';
 import { hash128 } from './hash128.ts';
 import { hash128x64 } from './hash128x64.ts';
+import { encodeString, encodedBytes } from './encoding.ts';
+import { wrapSeed } from './seed.ts';
 
 let warned = false;
 
@@ -16,8 +18,269 @@ function warnDeprecation(): void {
   );
 }
 
+// v1 (murmurHash3.js 2.1.2) hashed a string's UTF-16 code units, not its
+// UTF-8 bytes. Full blocks masked each code to its low byte, like latin1,
+// but the tail used the whole code, so a code above 0xff in the last
+// len % 16 characters spills its high byte into the next byte position.
+// The functions below reproduce that exactly; only ASCII keys hash the
+// same in v1 and v2.
+
+/**
+ * Low bytes of the four character codes at i, as a little-endian word
+ */
+function blockWord(key: string, i: number): number {
+  return (
+    (key.charCodeAt(i) & 0xff) |
+    ((key.charCodeAt(i + 1) & 0xff) << 8) |
+    ((key.charCodeAt(i + 2) & 0xff) << 16) |
+    ((key.charCodeAt(i + 3) & 0xff) << 24)
+  );
+}
+
+/**
+ * Tail word built from the unmasked codes of key[start, end), as v1 did
+ */
+function tailWord(key: string, start: number, end: number): number {
+  let k = 0;
+  for (let i = start; i < end; i++) {
+    k ^= key.charCodeAt(i) << ((i - start) * 8);
+  }
+  return k;
+}
+
+function multiply(m: number, n: number): number {
+  return (m & 0xffff) * n + ((((m >>> 16) * n) & 0xffff) << 16);
+}
+
+function rotl(m: number, n: number): number {
+  return (m << n) | (m >>> (32 - n));
+}
+
+function fmix(h: number): number {
+  h ^= h >>> 16;
+  h = multiply(h, 0x85ebca6b);
+  h ^= h >>> 13;
+  h = multiply(h, 0xc2b2ae35);
+  h ^= h >>> 16;
+  return h;
+}
+
+function hex32(h: number): string {
+  return ('00000000' + (h >>> 0).toString(16)).slice(-8);
+}
+
+/**
+ * v1 x86 32-bit: the tail is masked too, so this is exactly latin1
+ */
+function v1Hash32(key: string, seed: number): number {
+  const length = encodeString(key, 'latin1');
+  return compute32(encodedBytes(), 0, length, seed);
+}
+
+/**
+ * v1 x86 128-bit. Like v1, the seed is not truncated to an integer before
+ * it is first added to the lanes.
+ */
+function v1Hash128(key: string, seed: number): string {
+  const remainder = key.length % 16;
+  const bytes = key.length - remainder;
+  let h1 = seed;
+  let h2 = seed;
+  let h3 = seed;
+  let h4 = seed;
+
+  let i = 0;
+  for (; i < bytes; i += 16) {
+    let k1 = blockWord(key, i);
+    let k2 = blockWord(key, i + 4);
+    let k3 = blockWord(key, i + 8);
+    let k4 = blockWord(key, i + 12);
+
+    k1 = multiply(k1, 0x239b961b);
+    k1 = rotl(k1, 15);
+    k1 = multiply(k1, 0xab0e9789);
+    h1 ^= k1;
+    h1 = rotl(h1, 19);
+    h1 += h2;
+    h1 = multiply(h1, 5) + 0x561ccd1b;
+
+    k2 = multiply(k2, 0xab0e9789);
+    k2 = rotl(k2, 16);
+    k2 = multiply(k2, 0x38b34ae5);
+    h2 ^= k2;
+    h2 = rotl(h2, 17);
+    h2 += h3;
+    h2 = multiply(h2, 5) + 0x0bcaa747;
+
+    k3 = multiply(k3, 0x38b34ae5);
+    k3 = rotl(k3, 17);
+    k3 = multiply(k3, 0xa1e38b93);
+    h3 ^= k3;
+    h3 = rotl(h3, 15);
+    h3 += h4;
+    h3 = multiply(h3, 5) + 0x96cd1c35;
+
+    k4 = multiply(k4, 0xa1e38b93);
+    k4 = rotl(k4, 18);
+    k4 = multiply(k4, 0x239b961b);
+    h4 ^= k4;
+    h4 = rotl(h4, 13);
+    h4 += h1;
+    h4 = multiply(h4, 5) + 0x32ac3b17;
+  }
+
+  const end = i + remainder;
+  if (remainder > 12) {
+    let k4 = tailWord(key, i + 12, end);
+    k4 = multiply(k4, 0xa1e38b93);
+    k4 = rotl(k4, 18);
+    k4 = multiply(k4, 0x239b961b);
+    h4 ^= k4;
+  }
+  if (remainder > 8) {
+    let k3 = tailWord(key, i + 8, Math.min(end, i + 12));
+    k3 = multiply(k3, 0x38b34ae5);
+    k3 = rotl(k3, 17);
+    k3 = multiply(k3, 0xa1e38b93);
+    h3 ^= k3;
+  }
+  if (remainder > 4) {
+    let k2 = tailWord(key, i + 4, Math.min(end, i + 8));
+    k2 = multiply(k2, 0xab0e9789);
+    k2 = rotl(k2, 16);
+    k2 = multiply(k2, 0x38b34ae5);
+    h2 ^= k2;
+  }
+  if (remainder > 0) {
+    let k1 = tailWord(key, i, Math.min(end, i + 4));
+    k1 = multiply(k1, 0x239b961b);
+    k1 = rotl(k1, 15);
+    k1 = multiply(k1, 0xab0e9789);
+    h1 ^= k1;
+  }
+
+  h1 ^= key.length;
+  h2 ^= key.length;
+  h3 ^= key.length;
+  h4 ^= key.length;
+
+  h1 += h2 + h3 + h4;
+  h2 += h1;
+  h3 += h1;
+  h4 += h1;
+
+  h1 = fmix(h1);
+  h2 = fmix(h2);
+  h3 = fmix(h3);
+  h4 = fmix(h4);
+
+  h1 += h2 + h3 + h4;
+  h2 += h1;
+  h3 += h1;
+  h4 += h1;
+
+  return hex32(h1) + hex32(h2) + hex32(h3) + hex32(h4);
+}
+
+const MASK64 = 0xffffffffffffffffn;
+
+function multiply64(m: bigint, n: bigint): bigint {
+  return (m * n) & MASK64;
+}
+
+function rotl64(m: bigint, n: bigint): bigint {
+  return ((m << n) | (m >> (64n - n))) & MASK64;
+}
+
+function fmix64(k: bigint): bigint {
+  k ^= k >> 33n;
+  k = multiply64(k, 0xff51afd7ed558ccdn);
+  k ^= k >> 33n;
+  k = multiply64(k, 0xc4ceb9fe1a85ec53n);
+  k ^= k >> 33n;
+  return k;
+}
+
+/**
+ * Tail word of key[start, end) as v1's 64-bit shifts produced it
+ */
+function tailWord64(key: string, start: number, end: number): bigint {
+  let k = 0n;
+  for (let i = start; i < end; i++) {
+    k ^= BigInt(key.charCodeAt(i)) << BigInt((i - start) * 8);
+  }
+  return k & MASK64;
+}
+
 /**
- * v1 compatibility layer (deprecated)
+ * v1 x64 128-bit. v1 only used the seed's low 32 bits.
+ */
+function v1Hash128x64(key: string, seed: number): string {
+  const c1 = 0x87c37b91114253d5n;
+  const c2 = 0x4cf5ad432745937fn;
+  const remainder = key.length % 16;
+  const bytes = key.length - remainder;
+  let h1 = BigInt(seed >>> 0);
+  let h2 = h1;
+
+  let i = 0;
+  for (; i < bytes; i += 16) {
+    let k1 =
+      BigInt(blockWord(key, i) >>> 0) |
+      (BigInt(blockWord(key, i + 4) >>> 0) << 32n);
+    let k2 =
+      BigInt(blockWord(key, i + 8) >>> 0) |
+      (BigInt(blockWord(key, i + 12) >>> 0) << 32n);
+
+    k1 = multiply64(k1, c1);
+    k1 = rotl64(k1, 31n);
+    k1 = multiply64(k1, c2);
+    h1 ^= k1;
+    h1 = rotl64(h1, 27n);
+    h1 = (h1 + h2) & MASK64;
+    h1 = (h1 * 5n + 0x52dce729n) & MASK64;
+
+    k2 = multiply64(k2, c2);
+    k2 = rotl64(k2, 33n);
+    k2 = multiply64(k2, c1);
+    h2 ^= k2;
+    h2 = rotl64(h2, 31n);
+    h2 = (h2 + h1) & MASK64;
+    h2 = (h2 * 5n + 0x38495ab5n) & MASK64;
+  }
+
+  const end = i + remainder;
+  if (remainder > 8) {
+    let k2 = tailWord64(key, i + 8, end);
+    k2 = multiply64(k2, c2);
+    k2 = rotl64(k2, 33n);
+    k2 = multiply64(k2, c1);
+    h2 ^= k2;
+  }
+  if (remainder > 0) {
+    let k1 = tailWord64(key, i, Math.min(end, i + 8));
+    k1 = multiply64(k1, c1);
+    k1 = rotl64(k1, 31n);
+    k1 = multiply64(k1, c2);
+    h1 ^= k1;
+  }
+
+  h1 ^= BigInt(key.length);
+  h2 ^= BigInt(key.length);
+  h1 = (h1 + h2) & MASK64;
+  h2 = (h2 + h1) & MASK64;
+  h1 = fmix64(h1);
+  h2 = fmix64(h2);
+  h1 = (h1 + h2) & MASK64;
+  h2 = (h2 + h1) & MASK64;
+
+  return h1.toString(16).padStart(16, '0') + h2.toString(16).padStart(16, '0');
+}
+
+/**
+ * v1 compatibility layer (deprecated). Strings hash exactly as they did
+ * in v1, including keys with non-ASCII characters, which v2's functions
+ * hash differently. Use checkV1Migration() to find affected keys.
  *
  * @deprecated Use hash32(), hash128(), hash128x64() instead
  */
@@ -25,17 +288,72 @@ export const v3 = {
   x86: {
     hash32(key: string, seed?: number): number {
       warnDeprecation();
-      return hash32(key, seed);
+      return v1Hash32(key || '', seed || 0);
     },
     hash128(key: string, seed?: number): string {
       warnDeprecation();
-      return hash128(key, { seed }) as string;
+      return v1Hash128(key || '', seed || 0);
     },
   },
   x64: {
     hash128(key: string, seed?: number): string {
       warnDeprecation();
-      return hash128x64(key, { seed }) as string;
+      return v1Hash128x64(key || '', seed || 0);
     },
   },
 };
+
+/**
+ * Result of checkV1Migration()
+ */
+export interface V1MigrationReport {
+  /** v2's hash32(), hash128() or hash128x64() differs from v1 for this key */
+  changed: boolean;
+  /**
+   * Passing { encoding: 'latin1' } to the v2 functions reproduces all
+   * three v1 hashes. Always true for keys without characters above U+00FF.
+   */
+  latin1Compatible: boolean;
+  /** Seed to pass to the v2 functions: wrapSeed() of the v1 seed */
+  seed: number;
+  /**
+   * The v1 seed was outside 0 to 2^32 - 1, which v2 rejects; v1 used it
+   * modulo 2^32, as seed does
+   */
+  seedWrapped: boolean;
+}
+
+/**
+ * Compare a key's v1 hashes with v2's, to plan a migration of data that
+ * was placed or sharded by v1 hashes. v1 accepted any integer seed and
+ * used it modulo 2^32; v2 is compared with that wrapped seed. Throws a
+ * RangeError for non-integer seeds, for which v1's results depend on the
+ * fraction and no v2 seed is equivalent.
+ */
+export function checkV1Migration(
+  key: string,
+  v1Seed: number = 0
+): V1MigrationReport {
+  const seed = wrapSeed(v1Seed);
+  const v1 = [
+    v1Hash32(key, v1Seed),
+    v1Hash128(key, v1Seed),
+    v1Hash128x64(key, v1Seed),
+  ];
+  const v2 = [
+    hash32(key, seed),
+    hash128(key, { seed }),
+    hash128x64(key, { seed }),
+  ];
+  const latin1 = [
+    hash32(key, { seed, encoding: 'latin1' }),
+    hash128(key, { seed, encoding: 'latin1' }),
+    hash128x64(key, { seed, encoding: 'latin1' }),
+  ];
+  return {
+    changed: v1.some((hash, i) => hash !== v2[i]),
+    latin1Compatible: v1.every((hash, i) => hash === latin1[i]),
+    seed,
+    seedWrapped: seed !== v1Seed,
+  };
+}
@@ -0,0 +1,31 @@
+// Generated by scripts/build-wasm.ts from murmur.wat. Do not edit.
+export const WASM_BASE64 =
+  'AGFzbQEAAAABRAtgAn9/AX5gAn9/AX9gAX8Bf2ABfgF+YAR/f39/AX9gBH5+fn4BfmADf39/AX9g' +
+  'AX8AYAJ/fwBgA39/fwBgBH9/f38AAxAPAAEBAgMEBQYEBwgJCAgKBQMBAAIHYQkGbWVtb3J5AgAF' +
+  'bWl4MzIABwdmaW5hbDMyAAgHaW5pdDEyOAAJBm1peDEyOAAKCGZpbmFsMTI4AAsKaW5pdDEyOHg2' +
+  'NAAMCW1peDEyOHg2NAANC2ZpbmFsMTI4eDY0AA4KjwsPKgEBfgJAA0AgAUUNASABQQFrIQEgAkII' +
+  'hiAAIAFqMQAAhCECDAALCyACCwkAIAAgARAApwsMACAAIAEgACABSRsLNAAgACAAQRB2cyEAIABB' +
+  '65Svr3hsIQAgACAAQQ12cyEAIABBtdzKlXxsIQAgACAAQRB2cws8ACAAIABCIYiFIQAgAELNmdbq' +
+  '/vrrqH9+IQAgACAAQiGIhSEAIABC09iX1OG/rudEfiEAIAAgAEIhiIULDQAgACABbCACdyADbAsN' +
+  'ACAAIAF+IAKJIAN+C1EBAX8gASACQQJ0aiEDAkADQCABIANPDQEgACABKAAAQdHa+OR8QQ9Bk+uc' +
+  '3AEQBXMhACAAQQ13QQVsQeTW0bJ+aiEAIAFBBGohAQwACwsgAAspACACBEAgACABIAIQAUHR2vjk' +
+  'fEEPQZPrnNwBEAVzIQALIAAgA3MQAwseAEEAIAA2AgBBBCAANgIAQQggADYCAEEMIAA2AgALlAIB' +
+  'BX9BACgCACECQQQoAgAhA0EIKAIAIQRBDCgCACEFIAAgAUEEdGohBgJAA0AgACAGTw0BIAIgACgA' +
+  'AEGbrO6cAkEPQYmvuth6EAVzIQIgAkETdyADakEFbEGbmvOwBWohAiADIAAoAARBia+62HpBEEHl' +
+  'lc3FAxAFcyEDIANBEXcgBGpBBWxBx86q3gBqIQMgBCAAKAAIQeWVzcUDQRFBk5eOj3oQBXMhBCAE' +
+  'QQ93IAVqQQVsQbW4tLZ5aiEEIAUgACgADEGTl46PekESQZus7pwCEAVzIQUgBUENdyACakEFbEGX' +
+  '9rCVA2ohBSAAQRBqIQAMAAsLQQAgAjYCAEEEIAM2AgBBCCAENgIAQQwgBTYCAAvbAgEEf0EAKAIA' +
+  'IQNBBCgCACEEQQgoAgAhBUEMKAIAIQYgAUEMSwRAIAYgAEEMaiABQQxrEAFBk5eOj3pBEkGbrO6c' +
+  'AhAFcyEGCyABQQhLBEAgBSAAQQhqIAFBCGtBBBACEAFB5ZXNxQNBEUGTl46PehAFcyEFCyABQQRL' +
+  'BEAgBCAAQQRqIAFBBGtBBBACEAFBia+62HpBEEHllc3FAxAFcyEECyABBEAgAyAAIAFBBBACEAFB' +
+  'm6zunAJBD0GJr7rYehAFcyEDCyADIAJzIQMgBCACcyEEIAUgAnMhBSAGIAJzIQYgAyAEaiAFaiAG' +
+  'aiEDIAQgA2ohBCAFIANqIQUgBiADaiEGIAMQAyEDIAQQAyEEIAUQAyEFIAYQAyEGIAMgBGogBWog' +
+  'BmohAyAEIANqIQQgBSADaiEFIAYgA2ohBkEQIAM2AgBBFCAENgIAQRggBTYCAEEcIAY2AgALHgEB' +
+  'fiAArUIghiABrYQhAkEAIAI3AwBBCCACNwMAC7IBAgJ+AX9BACkDACECQQgpAwAhAyAAIAFBBHRq' +
+  'IQQCQANAIAAgBE8NASACIAApAABC1aeJipHy3uGHf0IfQv+mlrqyqOv6zAAQBoUhAiACQhuJIAN8' +
+  'QgV+QqnO85YFfCECIAMgACkACEL/ppa6sqjr+swAQiFC1aeJipHy3uGHfxAGhSEDIANCH4kgAnxC' +
+  'BX5CtbWlwgN8IQMgAEEQaiEADAALC0EAIAI3AwBBCCADNwMAC9sBAQN+QQApAwAhBEEIKQMAIQUg' +
+  'AUEISwRAIAUgAEEIaiABQQhrEABC/6aWurKo6/rMAEIhQtWniYqR8t7hh38QBoUhBQsgAQRAIAQg' +
+  'ACABQQgQAhAAQtWniYqR8t7hh39CH0L/ppa6sqjr+swAEAaFIQQLIAKtQiCGIAOthCEGIAQgBoUh' +
+  'BCAFIAaFIQUgBCAFfCEEIAUgBHwhBSAEEAQhBCAFEAQhBSAEIAV8IQQgBSAEfCEFQRAgBEIgiKc2' +
+  'AgBBFCAEpzYCAEEYIAVCIIinNgIAQRwgBac2AgAL';
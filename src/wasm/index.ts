@@ -0,0 +1,149 @@
+import { WASM_BASE64 } from './binary.ts';
+import { base64ToBytes } from '../encoding.ts';
+
+// Minimal WebAssembly surface; the ES2020 lib does not declare it
+declare const WebAssembly: {
+  Module: new (bytes: Uint8Array) => unknown;
+  Instance: new (module: unknown) => { exports: unknown };
+};
+
+interface Exports {
+  memory: { buffer: ArrayBuffer };
+  mix32(h: number, ptr: number, blocks: number): number;
+  final32(h: number, ptr: number, n: number, len: number): number;
+  init128(seed: number): void;
+  mix128(ptr: number, blocks: number): void;
+  final128(ptr: number, n: number, len: number): void;
+  init128x64(seedHi: number, seedLo: number): void;
+  mix128x64(ptr: number, blocks: number): void;
+  final128x64(ptr: number, n: number, lenHi: number, lenLo: number): void;
+}
+
+// Memory layout, see murmur.wat
+const OUT = 16;
+const DATA = 32;
+const CHUNK = 1 << 16;
+
+/**
+ * WebAssembly implementations with the same signatures as the JS compute()
+ * functions
+ */
+export interface WasmCore {
+  hash32(bytes: Uint8Array, offset: number, len: number, seed: number): number;
+  hash128(
+    bytes: Uint8Array,
+    offset: number,
+    len: number,
+    seed: number,
+    out: Uint32Array,
+    outOffset: number
+  ): void;
+  hash128x64(
+    bytes: Uint8Array,
+    offset: number,
+    len: number,
+    seedHi: number,
+    seedLo: number,
+    out: Uint32Array,
+    outOffset: number
+  ): void;
+}
+
+function instantiate(): WasmCore | null {
+  if (typeof WebAssembly === 'undefined') {
+    return null;
+  }
+  const module = new WebAssembly.Module(base64ToBytes(WASM_BASE64));
+  const wasm = new WebAssembly.Instance(module).exports as Exports;
+  const memory = new Uint8Array(wasm.memory.buffer);
+  const view = new DataView(wasm.memory.buffer);
+
+  function copy(bytes: Uint8Array, offset: number, len: number): void {
+    if (len <= 64) {
+      for (let i = 0; i < len; i++) {
+        memory[DATA + i] = bytes[offset + i];
+      }
+    } else {
+      memory.set(bytes.subarray(offset, offset + len), DATA);
+    }
+  }
+
+  function readDigest(out: Uint32Array, outOffset: number): void {
+    for (let i = 0; i < 4; i++) {
+      out[outOffset + i] = view.getUint32(OUT + i * 4, true);
+    }
+  }
+
+  // Input is fed through the fixed-size data area chunk by chunk; the
+  // final chunk (at most CHUNK bytes) carries the tail.
+  function mix128(
+    mix: (ptr: number, blocks: number) => void,
+    bytes: Uint8Array,
+    offset: number,
+    len: number
+  ): number {
+    while (len > CHUNK) {
+      copy(bytes, offset, CHUNK);
+      mix(DATA, CHUNK >>> 4);
+      offset += CHUNK;
+      len -= CHUNK;
+    }
+    copy(bytes, offset, len);
+    mix(DATA, len >>> 4);
+    return len;
+  }
+
+  return {
+    hash32(bytes, offset, len, seed) {
+      let h = seed;
+      let remaining = len;
+      while (remaining > CHUNK) {
+        copy(bytes, offset, CHUNK);
+        h = wasm.mix32(h, DATA, CHUNK >>> 2);
+        offset += CHUNK;
+        remaining -= CHUNK;
+      }
+      copy(bytes, offset, remaining);
+      const blocks = remaining >>> 2;
+      h = wasm.mix32(h, DATA, blocks);
+      return wasm.final32(h, DATA + blocks * 4, remaining & 3, len) >>> 0;
+    },
+
+    hash128(bytes, offset, len, seed, out, outOffset) {
+      wasm.init128(seed);
+      const rest = mix128(wasm.mix128, bytes, offset, len);
+      wasm.final128(DATA + (rest & ~15), rest & 15, len);
+      readDigest(out, outOffset);
+    },
+
+    hash128x64(bytes, offset, len, seedHi, seedLo, out, outOffset) {
+      wasm.init128x64(seedHi, seedLo);
+      const rest = mix128(wasm.mix128x64, bytes, offset, len);
+      wasm.final128x64(
+        DATA + (rest & ~15),
+        rest & 15,
+        Math.floor(len / 0x100000000),
+        len >>> 0
+      );
+      readDigest(out, outOffset);
+    },
+  };
+}
+
+let core: WasmCore | null | undefined;
+
+/**
+ * Instantiate the inlined WebAssembly module on first use. Returns null if
+ * the runtime has no WebAssembly support or refuses to compile it (e.g.
+ * under a strict Content-Security-Policy).
+ */
+export function loadWasm(): WasmCore | null {
+  if (core === undefined) {
+    try {
+      core = instantiate();
+    } catch {
+      core = null;
+    }
+  }
+  return core;
+}
@@ -0,0 +1,306 @@
+;; MurmurHash3 x86_32, x86_128 and x64_128 for the WebAssembly backend.
+;;
+;; Rebuild src/wasm/binary.ts after editing: npm run build:wasm
+;;
+;; Memory layout:
+;;    0  state lanes (x86_128: four i32, x64_128: two i64)
+;;   16  digest words, in hex digest order
+;;   32  input chunk (up to 64 KiB)
+;;
+;; Callers feed complete 16-byte (or 4-byte) blocks through the mix
+;; functions chunk by chunk, then pass the tail to the final function.
+
+(module
+  (memory (export "memory") 2)
+
+  ;; Little-endian value of the n (<= 8) bytes at ptr
+  (func $tail64 (param $ptr i32) (param $n i32) (result i64)
+    (local $k i64)
+    (block $done
+      (loop $next
+        (br_if $done (i32.eqz (local.get $n)))
+        (local.set $n (i32.sub (local.get $n) (i32.const 1)))
+        (local.set $k
+          (i64.or
+            (i64.shl (local.get $k) (i64.const 8))
+            (i64.load8_u (i32.add (local.get $ptr) (local.get $n)))))
+        (br $next)))
+    (local.get $k))
+
+  (func $tail32 (param $ptr i32) (param $n i32) (result i32)
+    (i32.wrap_i64 (call $tail64 (local.get $ptr) (local.get $n))))
+
+  (func $min (param $a i32) (param $b i32) (result i32)
+    (select (local.get $a) (local.get $b)
+      (i32.lt_u (local.get $a) (local.get $b))))
+
+  (func $fmix32 (param $h i32) (result i32)
+    (local.set $h (i32.xor (local.get $h) (i32.shr_u (local.get $h) (i32.const 16))))
+    (local.set $h (i32.mul (local.get $h) (i32.const 0x85ebca6b)))
+    (local.set $h (i32.xor (local.get $h) (i32.shr_u (local.get $h) (i32.const 13))))
+    (local.set $h (i32.mul (local.get $h) (i32.const 0xc2b2ae35)))
+    (i32.xor (local.get $h) (i32.shr_u (local.get $h) (i32.const 16))))
+
+  (func $fmix64 (param $h i64) (result i64)
+    (local.set $h (i64.xor (local.get $h) (i64.shr_u (local.get $h) (i64.const 33))))
+    (local.set $h (i64.mul (local.get $h) (i64.const 0xff51afd7ed558ccd)))
+    (local.set $h (i64.xor (local.get $h) (i64.shr_u (local.get $h) (i64.const 33))))
+    (local.set $h (i64.mul (local.get $h) (i64.const 0xc4ceb9fe1a85ec53)))
+    (i64.xor (local.get $h) (i64.shr_u (local.get $h) (i64.const 33))))
+
+  ;; k * c1, rotate, * c2 (the per-lane key scramble)
+  (func $scramble32 (param $k i32) (param $c1 i32) (param $r i32) (param $c2 i32) (result i32)
+    (i32.mul (i32.rotl (i32.mul (local.get $k) (local.get $c1)) (local.get $r)) (local.get $c2)))
+
+  (func $scramble64 (param $k i64) (param $c1 i64) (param $r i64) (param $c2 i64) (result i64)
+    (i64.mul (i64.rotl (i64.mul (local.get $k) (local.get $c1)) (local.get $r)) (local.get $c2)))
+
+  ;; ---------------------------------------------------------------- x86_32
+
+  (func (export "mix32") (param $h i32) (param $ptr i32) (param $blocks i32) (result i32)
+    (local $end i32)
+    (local.set $end (i32.add (local.get $ptr) (i32.shl (local.get $blocks) (i32.const 2))))
+    (block $done
+      (loop $next
+        (br_if $done (i32.ge_u (local.get $ptr) (local.get $end)))
+        (local.set $h
+          (i32.xor (local.get $h)
+            (call $scramble32 (i32.load align=1 (local.get $ptr))
+              (i32.const 0xcc9e2d51) (i32.const 15) (i32.const 0x1b873593))))
+        (local.set $h
+          (i32.add
+            (i32.mul (i32.rotl (local.get $h) (i32.const 13)) (i32.const 5))
+            (i32.const 0xe6546b64)))
+        (local.set $ptr (i32.add (local.get $ptr) (i32.const 4)))
+        (br $next)))
+    (local.get $h))
+
+  (func (export "final32") (param $h i32) (param $ptr i32) (param $n i32) (param $len i32) (result i32)
+    (if (local.get $n)
+      (then
+        (local.set $h
+          (i32.xor (local.get $h)
+            (call $scramble32 (call $tail32 (local.get $ptr) (local.get $n))
+              (i32.const 0xcc9e2d51) (i32.const 15) (i32.const 0x1b873593))))))
+    (call $fmix32 (i32.xor (local.get $h) (local.get $len))))
+
+  ;; --------------------------------------------------------------- x86_128
+
+  (func (export "init128") (param $seed i32)
+    (i32.store (i32.const 0) (local.get $seed))
+    (i32.store (i32.const 4) (local.get $seed))
+    (i32.store (i32.const 8) (local.get $seed))
+    (i32.store (i32.const 12) (local.get $seed)))
+
+  (func (export "mix128") (param $ptr i32) (param $blocks i32)
+    (local $h1 i32) (local $h2 i32) (local $h3 i32) (local $h4 i32) (local $end i32)
+    (local.set $h1 (i32.load (i32.const 0)))
+    (local.set $h2 (i32.load (i32.const 4)))
+    (local.set $h3 (i32.load (i32.const 8)))
+    (local.set $h4 (i32.load (i32.const 12)))
+    (local.set $end (i32.add (local.get $ptr) (i32.shl (local.get $blocks) (i32.const 4))))
+    (block $done
+      (loop $next
+        (br_if $done (i32.ge_u (local.get $ptr) (local.get $end)))
+
+        (local.set $h1
+          (i32.xor (local.get $h1)
+            (call $scramble32 (i32.load align=1 (local.get $ptr))
+              (i32.const 0x239b961b) (i32.const 15) (i32.const 0xab0e9789))))
+        (local.set $h1
+          (i32.add
+            (i32.mul
+              (i32.add (i32.rotl (local.get $h1) (i32.const 19)) (local.get $h2))
+              (i32.const 5))
+            (i32.const 0x561ccd1b)))
+
+        (local.set $h2
+          (i32.xor (local.get $h2)
+            (call $scramble32 (i32.load offset=4 align=1 (local.get $ptr))
+              (i32.const 0xab0e9789) (i32.const 16) (i32.const 0x38b34ae5))))
+        (local.set $h2
+          (i32.add
+            (i32.mul
+              (i32.add (i32.rotl (local.get $h2) (i32.const 17)) (local.get $h3))
+              (i32.const 5))
+            (i32.const 0x0bcaa747)))
+
+        (local.set $h3
+          (i32.xor (local.get $h3)
+            (call $scramble32 (i32.load offset=8 align=1 (local.get $ptr))
+              (i32.const 0x38b34ae5) (i32.const 17) (i32.const 0xa1e38b93))))
+        (local.set $h3
+          (i32.add
+            (i32.mul
+              (i32.add (i32.rotl (local.get $h3) (i32.const 15)) (local.get $h4))
+              (i32.const 5))
+            (i32.const 0x96cd1c35)))
+
+        (local.set $h4
+          (i32.xor (local.get $h4)
+            (call $scramble32 (i32.load offset=12 align=1 (local.get $ptr))
+              (i32.const 0xa1e38b93) (i32.const 18) (i32.const 0x239b961b))))
+        (local.set $h4
+          (i32.add
+            (i32.mul
+              (i32.add (i32.rotl (local.get $h4) (i32.const 13)) (local.get $h1))
+              (i32.const 5))
+            (i32.const 0x32ac3b17)))
+
+        (local.set $ptr (i32.add (local.get $ptr) (i32.const 16)))
+        (br $next)))
+    (i32.store (i32.const 0) (local.get $h1))
+    (i32.store (i32.const 4) (local.get $h2))
+    (i32.store (i32.const 8) (local.get $h3))
+    (i32.store (i32.const 12) (local.get $h4)))
+
+  (func (export "final128") (param $ptr i32) (param $n i32) (param $len i32)
+    (local $h1 i32) (local $h2 i32) (local $h3 i32) (local $h4 i32)
+    (local.set $h1 (i32.load (i32.const 0)))
+    (local.set $h2 (i32.load (i32.const 4)))
+    (local.set $h3 (i32.load (i32.const 8)))
+    (local.set $h4 (i32.load (i32.const 12)))
+
+    (if (i32.gt_u (local.get $n) (i32.const 12))
+      (then
+        (local.set $h4
+          (i32.xor (local.get $h4)
+            (call $scramble32
+              (call $tail32 (i32.add (local.get $ptr) (i32.const 12)) (i32.sub (local.get $n) (i32.const 12)))
+              (i32.const 0xa1e38b93) (i32.const 18) (i32.const 0x239b961b))))))
+    (if (i32.gt_u (local.get $n) (i32.const 8))
+      (then
+        (local.set $h3
+          (i32.xor (local.get $h3)
+            (call $scramble32
+              (call $tail32 (i32.add (local.get $ptr) (i32.const 8))
+                (call $min (i32.sub (local.get $n) (i32.const 8)) (i32.const 4)))
+              (i32.const 0x38b34ae5) (i32.const 17) (i32.const 0xa1e38b93))))))
+    (if (i32.gt_u (local.get $n) (i32.const 4))
+      (then
+        (local.set $h2
+          (i32.xor (local.get $h2)
+            (call $scramble32
+              (call $tail32 (i32.add (local.get $ptr) (i32.const 4))
+                (call $min (i32.sub (local.get $n) (i32.const 4)) (i32.const 4)))
+              (i32.const 0xab0e9789) (i32.const 16) (i32.const 0x38b34ae5))))))
+    (if (local.get $n)
+      (then
+        (local.set $h1
+          (i32.xor (local.get $h1)
+            (call $scramble32
+              (call $tail32 (local.get $ptr) (call $min (local.get $n) (i32.const 4)))
+              (i32.const 0x239b961b) (i32.const 15) (i32.const 0xab0e9789))))))
+
+    (local.set $h1 (i32.xor (local.get $h1) (local.get $len)))
+    (local.set $h2 (i32.xor (local.get $h2) (local.get $len)))
+    (local.set $h3 (i32.xor (local.get $h3) (local.get $len)))
+    (local.set $h4 (i32.xor (local.get $h4) (local.get $len)))
+
+    (local.set $h1 (i32.add (i32.add (i32.add (local.get $h1) (local.get $h2)) (local.get $h3)) (local.get $h4)))
+    (local.set $h2 (i32.add (local.get $h2) (local.get $h1)))
+    (local.set $h3 (i32.add (local.get $h3) (local.get $h1)))
+    (local.set $h4 (i32.add (local.get $h4) (local.get $h1)))
+
+    (local.set $h1 (call $fmix32 (local.get $h1)))
+    (local.set $h2 (call $fmix32 (local.get $h2)))
+    (local.set $h3 (call $fmix32 (local.get $h3)))
+    (local.set $h4 (call $fmix32 (local.get $h4)))
+
+    (local.set $h1 (i32.add (i32.add (i32.add (local.get $h1) (local.get $h2)) (local.get $h3)) (local.get $h4)))
+    (local.set $h2 (i32.add (local.get $h2) (local.get $h1)))
+    (local.set $h3 (i32.add (local.get $h3) (local.get $h1)))
+    (local.set $h4 (i32.add (local.get $h4) (local.get $h1)))
+
+    (i32.store (i32.const 16) (local.get $h1))
+    (i32.store (i32.const 20) (local.get $h2))
+    (i32.store (i32.const 24) (local.get $h3))
+    (i32.store (i32.const 28) (local.get $h4)))
+
+  ;; --------------------------------------------------------------- x64_128
+
+  (func (export "init128x64") (param $seedHi i32) (param $seedLo i32)
+    (local $seed i64)
+    (local.set $seed
+      (i64.or
+        (i64.shl (i64.extend_i32_u (local.get $seedHi)) (i64.const 32))
+        (i64.extend_i32_u (local.get $seedLo))))
+    (i64.store (i32.const 0) (local.get $seed))
+    (i64.store (i32.const 8) (local.get $seed)))
+
+  (func (export "mix128x64") (param $ptr i32) (param $blocks i32)
+    (local $h1 i64) (local $h2 i64) (local $end i32)
+    (local.set $h1 (i64.load (i32.const 0)))
+    (local.set $h2 (i64.load (i32.const 8)))
+    (local.set $end (i32.add (local.get $ptr) (i32.shl (local.get $blocks) (i32.const 4))))
+    (block $done
+      (loop $next
+        (br_if $done (i32.ge_u (local.get $ptr) (local.get $end)))
+
+        (local.set $h1
+          (i64.xor (local.get $h1)
+            (call $scramble64 (i64.load align=1 (local.get $ptr))
+              (i64.const 0x87c37b91114253d5) (i64.const 31) (i64.const 0x4cf5ad432745937f))))
+        (local.set $h1
+          (i64.add
+            (i64.mul
+              (i64.add (i64.rotl (local.get $h1) (i64.const 27)) (local.get $h2))
+              (i64.const 5))
+            (i64.const 0x52dce729)))
+
+        (local.set $h2
+          (i64.xor (local.get $h2)
+            (call $scramble64 (i64.load offset=8 align=1 (local.get $ptr))
+              (i64.const 0x4cf5ad432745937f) (i64.const 33) (i64.const 0x87c37b91114253d5))))
+        (local.set $h2
+          (i64.add
+            (i64.mul
+              (i64.add (i64.rotl (local.get $h2) (i64.const 31)) (local.get $h1))
+              (i64.const 5))
+            (i64.const 0x38495ab5)))
+
+        (local.set $ptr (i32.add (local.get $ptr) (i32.const 16)))
+        (br $next)))
+    (i64.store (i32.const 0) (local.get $h1))
+    (i64.store (i32.const 8) (local.get $h2)))
+
+  (func (export "final128x64") (param $ptr i32) (param $n i32) (param $lenHi i32) (param $lenLo i32)
+    (local $h1 i64) (local $h2 i64) (local $len i64)
+    (local.set $h1 (i64.load (i32.const 0)))
+    (local.set $h2 (i64.load (i32.const 8)))
+
+    (if (i32.gt_u (local.get $n) (i32.const 8))
+      (then
+        (local.set $h2
+          (i64.xor (local.get $h2)
+            (call $scramble64
+              (call $tail64 (i32.add (local.get $ptr) (i32.const 8)) (i32.sub (local.get $n) (i32.const 8)))
+              (i64.const 0x4cf5ad432745937f) (i64.const 33) (i64.const 0x87c37b91114253d5))))))
+    (if (local.get $n)
+      (then
+        (local.set $h1
+          (i64.xor (local.get $h1)
+            (call $scramble64
+              (call $tail64 (local.get $ptr) (call $min (local.get $n) (i32.const 8)))
+              (i64.const 0x87c37b91114253d5) (i64.const 31) (i64.const 0x4cf5ad432745937f))))))
+
+    (local.set $len
+      (i64.or
+        (i64.shl (i64.extend_i32_u (local.get $lenHi)) (i64.const 32))
+        (i64.extend_i32_u (local.get $lenLo))))
+    (local.set $h1 (i64.xor (local.get $h1) (local.get $len)))
+    (local.set $h2 (i64.xor (local.get $h2) (local.get $len)))
+
+    (local.set $h1 (i64.add (local.get $h1) (local.get $h2)))
+    (local.set $h2 (i64.add (local.get $h2) (local.get $h1)))
+    (local.set $h1 (call $fmix64 (local.get $h1)))
+    (local.set $h2 (call $fmix64 (local.get $h2)))
+    (local.set $h1 (i64.add (local.get $h1) (local.get $h2)))
+    (local.set $h2 (i64.add (local.get $h2) (local.get $h1)))
+
+    ;; Digest words: h1 high, h1 low, h2 high, h2 low
+    (i32.store (i32.const 16) (i32.wrap_i64 (i64.shr_u (local.get $h1) (i64.const 32))))
+    (i32.store (i32.const 20) (i32.wrap_i64 (local.get $h1)))
+    (i32.store (i32.const 24) (i32.wrap_i64 (i64.shr_u (local.get $h2) (i64.const 32))))
+    (i32.store (i32.const 28) (i32.wrap_i64 (local.get $h2))))
+)
@@ -0,0 +1,195 @@
+import { test } from 'node:test';
+import assert from 'node:assert';
+import { Readable } from 'node:stream';
+import { mkdtemp, writeFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import {
+  hash32,
+  hash128,
+  hash128x64,
+  hash32Async,
+  hash128Async,
+  hash128x64Async,
+} from '../src/index.ts';
+import { hash32File, hash128File, hash128x64File } from '../src/node/index.ts';
+
+const data = new Uint8Array(10_000).map((_, i) => (i * 31) & 0xff);
+
+async function* chunksOf(bytes: Uint8Array, size: number) {
+  for (let i = 0; i < bytes.length; i += size) {
+    yield bytes.subarray(i, i + size);
+  }
+}
+
+test('async: AsyncIterable sources match one-shot hashes', async () => {
+  assert.strictEqual(await hash32Async(chunksOf(data, 7)), hash32(data));
+  assert.strictEqual(
+    await hash128Async(chunksOf(data, 100), { seed: 9, output: 'bigint' }),
+    hash128(data, { seed: 9, output: 'bigint' })
+  );
+  assert.strictEqual(
+    await hash128x64Async(chunksOf(data, 4096)),
+    hash128x64(data)
+  );
+  assert.strictEqual(
+    await hash128x64Async(chunksOf(new Uint8Array(0), 1)),
+    hash128x64('')
+  );
+});
+
+test('async: string chunks use the encoding option or profile', async () => {
+  async function* parts() {
+    yield 'héllo ';
+    yield new TextEncoder().encode('wörld');
+  }
+  assert.strictEqual(await hash128x64Async(parts()), hash128x64('héllo wörld'));
+  const guava = await hash32Async(
+    (async function* () {
+      yield 'héllo';
+    })(),
+    { profile: 'guava' }
+  );
+  assert.strictEqual(guava, hash32('héllo', { profile: 'guava' }));
+});
+
+test('async: Node.js readable streams', async () => {
+  const stream = Readable.from(chunksOf(data, 333));
+  assert.strictEqual(await hash128Async(stream), hash128(data));
+});
+
+test('async: ReadableStream sources', async () => {
+  const strings = new ReadableStream<string>({
+    start(controller) {
+      controller.enqueue('hello ');
+      controller.enqueue('world');
+      controller.close();
+    },
+  });
+  assert.strictEqual(await hash32Async(strings), hash32('hello world'));
+
+  // Byte streams are read readSize bytes at a time
+  const requested: number[] = [];
+  let offset = 0;
+  const bytes = new ReadableStream({
+    type: 'bytes',
+    pull(controller) {
+      const request = controller.byobRequest!;
+      const view = request.view as Uint8Array;
+      requested.push(view.byteLength);
+      const n = Math.min(view.byteLength, data.length - offset);
+      if (n === 0) {
+        controller.close();
+        request.respond(0);
+        return;
+      }
+      view.set(data.subarray(offset, offset + n));
+      offset += n;
+      request.respond(n);
+    },
+  });
+  const progress: number[] = [];
+  const digest = await hash128x64Async(bytes, {
+    readSize: 4096,
+    onProgress: (bytesRead) => progress.push(bytesRead),
+  });
+  assert.strictEqual(digest, hash128x64(data));
+  assert.ok(requested.every((size) => size <= 4096));
+  assert.deepStrictEqual(progress, [4096, 8192, 10_000]);
+});
+
+test('async: Blob sources are sliced by readSize', async () => {
+  const blob = new Blob([data]);
+  const progress: Array<[number, number | undefined]> = [];
+  const digest = await hash128Async(blob, {
+    readSize: 3000,
+    onProgress: (bytesRead, totalBytes) => progress.push([bytesRead, totalBytes]),
+  });
+  assert.strictEqual(digest, hash128(data));
+  assert.deepStrictEqual(progress, [
+    [3000, 10_000],
+    [6000, 10_000],
+    [9000, 10_000],
+    [10_000, 10_000],
+  ]);
+  assert.strictEqual(await hash32Async(new Blob([])), hash32(''));
+});
+
+test('async: AbortSignal stops reading and closes the source', async () => {
+  const aborted = AbortSignal.abort(new Error('stop'));
+  await assert.rejects(hash32Async(chunksOf(data, 10), { signal: aborted }), /stop/);
+
+  let closed = false;
+  async function* endless() {
+    try {
+      for (;;) {
+        yield data;
+      }
+    } finally {
+      closed = true;
+    }
+  }
+  const controller = new AbortController();
+  await assert.rejects(
+    hash128x64Async(endless(), {
+      signal: controller.signal,
+      onProgress: (bytesRead) => {
+        if (bytesRead >= 50_000) controller.abort(new Error('enough'));
+      },
+    }),
+    /enough/
+  );
+  assert.strictEqual(closed, true);
+
+  // A read that never settles is abandoned as soon as the signal aborts
+  const pending = new AbortController();
+  const stalled = new ReadableStream({ pull: () => new Promise(() => {}) });
+  const result = hash128Async(stalled, { signal: pending.signal });
+  pending.abort(new Error('timeout'));
+  await assert.rejects(result, /timeout/);
+});
+
+test('async: invalid sources and read sizes', async () => {
+  await assert.rejects(hash32Async(data as never), TypeError);
+  await assert.rejects(hash32Async(null as never), TypeError);
+  for (const readSize of [0, -1, 1.5, NaN]) {
+    await assert.rejects(hash32Async(new Blob([data]), { readSize }), RangeError);
+  }
+});
+
+test('async: files are hashed through a fixed-size buffer', async () => {
+  const dir = await mkdtemp(join(tmpdir(), 'murmur-hash-'));
+  try {
+    const path = join(dir, 'data.bin');
+    await writeFile(path, data);
+    assert.strictEqual(await hash32File(path), hash32(data));
+    assert.strictEqual(
+      await hash128File(path, { output: 'bigint' }),
+      hash128(data, { output: 'bigint' })
+    );
+    const progress: Array<[number, number | undefined]> = [];
+    const digest = await hash128x64File(path, {
+      readSize: 4096,
+      onProgress: (bytesRead, totalBytes) => progress.push([bytesRead, totalBytes]),
+    });
+    assert.strictEqual(digest, hash128x64(data));
+    assert.deepStrictEqual(progress, [
+      [4096, 10_000],
+      [8192, 10_000],
+      [10_000, 10_000],
+    ]);
+
+    const controller = new AbortController();
+    await assert.rejects(
+      hash128x64File(path, {
+        readSize: 1024,
+        signal: controller.signal,
+        onProgress: () => controller.abort(new Error('cancelled')),
+      }),
+      /cancelled/
+    );
+    await assert.rejects(hash32File(join(dir, 'missing')), { code: 'ENOENT' });
+  } finally {
+    await rm(dir, { recursive: true });
+  }
+});
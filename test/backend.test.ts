@@ -0,0 +1,65 @@
+import { test } from 'node:test';
+import assert from 'node:assert';
+import { hash32, hash128, hash128x64, setBackend, getBackend } from '../src/index.ts';
+
+function sample(len: number, salt: number): Uint8Array {
+  const bytes = new Uint8Array(len);
+  let x = (len * 2654435761 + salt) >>> 0;
+  for (let i = 0; i < len; i++) {
+    x = (Math.imul(x, 1103515245) + 12345) >>> 0;
+    bytes[i] = x >>> 24;
+  }
+  return bytes;
+}
+
+function allHashes(bytes: Uint8Array, seed: number): unknown[] {
+  return [hash32(bytes, seed), hash128(bytes, { seed }), hash128x64(bytes, { seed })];
+}
+
+test('backend: WebAssembly is selected automatically when available', () => {
+  setBackend('auto');
+  assert.strictEqual(getBackend(), 'wasm');
+});
+
+test('backend: js and wasm produce identical output', () => {
+  const lengths = [0, 1, 3, 4, 5, 15, 16, 17, 31, 32, 33, 100, 255, 256, 1000];
+  // Inputs larger than the 64 KiB WebAssembly transfer chunk
+  lengths.push(65535, 65536, 65537, 65536 * 3 + 7);
+
+  try {
+    for (const len of lengths) {
+      const bytes = sample(len, 1);
+      const seed = (len * 40503) >>> 0;
+
+      setBackend('js');
+      const js = allHashes(bytes, seed);
+      setBackend('wasm');
+      const wasm = allHashes(bytes, seed);
+
+      assert.deepStrictEqual(wasm, js, `length ${len}`);
+    }
+  } finally {
+    setBackend('auto');
+  }
+});
+
+test('backend: string input goes through both backends the same way', () => {
+  try {
+    setBackend('wasm');
+    assert.strictEqual(hash32('hello'), 613153351);
+    assert.strictEqual(hash128x64('hello'), 'cbd8a7b341bd9b025b1e906a48ae1d19');
+    setBackend('js');
+    assert.strictEqual(getBackend(), 'js');
+    assert.strictEqual(hash32('hello'), 613153351);
+    assert.strictEqual(hash128x64('hello'), 'cbd8a7b341bd9b025b1e906a48ae1d19');
+  } finally {
+    setBackend('auto');
+  }
+});
+
+test('backend: rejects unknown backends', () => {
+  setBackend('auto');
+  assert.throws(() => setBackend('gpu' as 'js'), TypeError);
+  // The previous selection is kept
+  assert.strictEqual(getBackend(), 'wasm');
+});
@@ -0,0 +1,69 @@
+import { test } from 'node:test';
+import assert from 'node:assert';
+import {
+  hash32,
+  hash128,
+  hash128x64,
+  hash32Batch,
+  hash128Batch,
+  hash128x64Batch,
+} from '../src/index.ts';
+
+const encoder = new TextEncoder();
+const keys = ['', 'a', 'hello', 'naïve café', '😀', 'x'.repeat(100), '0123456789abcdef'];
+
+function pack(strings: string[]): { data: Uint8Array; offsets: Uint32Array } {
+  const parts = strings.map((s) => encoder.encode(s));
+  const offsets = new Uint32Array(parts.length + 1);
+  for (let i = 0; i < parts.length; i++) {
+    offsets[i + 1] = offsets[i] + parts[i].length;
+  }
+  const data = new Uint8Array(offsets[parts.length]);
+  parts.forEach((part, i) => data.set(part, offsets[i]));
+  return { data, offsets };
+}
+
+function toHex(words: Uint32Array, i: number): string {
+  return Array.from(words.subarray(i * 4, i * 4 + 4), (w) =>
+    w.toString(16).padStart(8, '0')
+  ).join('');
+}
+
+test('hash32Batch: matches hash32 for arrays and packed input', () => {
+  const expected = keys.map((k) => hash32(k, 42));
+  assert.deepStrictEqual(Array.from(hash32Batch(keys, 42)), expected);
+  assert.deepStrictEqual(Array.from(hash32Batch(pack(keys), 42)), expected);
+});
+
+test('hash32Batch: accepts mixed strings and bytes', () => {
+  const inputs = ['hello', encoder.encode('world')];
+  assert.deepStrictEqual(Array.from(hash32Batch(inputs)), [hash32('hello'), hash32('world')]);
+});
+
+test('hash128Batch: matches hash128', () => {
+  for (const result of [hash128Batch(keys, 7), hash128Batch(pack(keys), 7)]) {
+    assert.strictEqual(result.length, keys.length * 4);
+    keys.forEach((k, i) => assert.strictEqual(toHex(result, i), hash128(k, { seed: 7 })));
+  }
+});
+
+test('hash128x64Batch: matches hash128x64', () => {
+  for (const result of [hash128x64Batch(keys, 7), hash128x64Batch(pack(keys), 7)]) {
+    keys.forEach((k, i) => assert.strictEqual(toHex(result, i), hash128x64(k, { seed: 7 })));
+  }
+});
+
+test('batch: reuses a preallocated output array', () => {
+  const out = new Uint32Array(keys.length + 2);
+  assert.strictEqual(hash32Batch(keys, 0, out), out);
+  assert.strictEqual(out[0], hash32(keys[0]));
+  assert.throws(() => hash128Batch(keys, 0, out), RangeError);
+});
+
+test('batch: rejects invalid packed offsets', () => {
+  const data = new Uint8Array(4);
+  assert.throws(() => hash32Batch({ data, offsets: [0, 5] }), RangeError);
+  assert.throws(() => hash32Batch({ data, offsets: [2, 1] }), RangeError);
+  assert.throws(() => hash32Batch({ data, offsets: [] }), RangeError);
+  assert.strictEqual(hash32Batch({ data, offsets: [0] }).length, 0);
+});
@@ -0,0 +1,52 @@
+import { test } from 'node:test';
+import assert from 'node:assert';
+import { cassandraToken, hash128x64 } from '../src/index.ts';
+
+const int = (value: number) => {
+  const bytes = new Uint8Array(4);
+  new DataView(bytes.buffer).setInt32(0, value);
+  return bytes;
+};
+
+test('cassandraToken: int partition keys', () => {
+  // SELECT token(id) FROM t WHERE id IN (1, 2, 3, 4, 5), id int
+  assert.strictEqual(cassandraToken(int(1)), -4069959284402364209n);
+  assert.strictEqual(cassandraToken(int(2)), -3248873570005575792n);
+  assert.strictEqual(cassandraToken(int(3)), 9010454139840013625n);
+  assert.strictEqual(cassandraToken(int(4)), -2729420104000364805n);
+  assert.strictEqual(cassandraToken(int(5)), -7509452495886106294n);
+});
+
+test('cassandraToken: text partition keys', () => {
+  assert.strictEqual(cassandraToken('jsmith'), 3387803449176249109n);
+  assert.strictEqual(cassandraToken('hello'), -3758069500696749310n);
+  assert.strictEqual(cassandraToken('x'.repeat(17)), -2118831686519497069n);
+  assert.strictEqual(cassandraToken('abcdefghijklmnopqrstuvwxyz0123456789'), -983632591049499078n);
+  assert.strictEqual(cassandraToken(new TextEncoder().encode('jsmith')), 3387803449176249109n);
+});
+
+test('cassandraToken: sign-extended tail bytes', () => {
+  assert.strictEqual(cassandraToken('Ünïcødé key'), -310070298626886874n);
+  assert.strictEqual(cassandraToken('😀😀😀'), 767877220668703925n);
+  assert.strictEqual(cassandraToken(new Uint8Array(15).fill(0xff)), -2195530867418009455n);
+  assert.strictEqual(cassandraToken(new Uint8Array([0x61, 0x62, 0x63, 0x80])), 1859096347584414759n);
+
+  // The quirk only changes keys with a high bit set in the tail
+  const [h1] = hash128x64('😀😀😀', { output: 'pair' });
+  assert.notStrictEqual(cassandraToken('😀😀😀'), BigInt.asIntN(64, h1));
+  const [ascii] = hash128x64('jsmith', { output: 'pair' });
+  assert.strictEqual(cassandraToken('jsmith'), BigInt.asIntN(64, ascii));
+});
+
+test('cassandraToken: composite partition keys', () => {
+  assert.strictEqual(cassandraToken(['abc', int(7)]), -4043220674030979619n);
+  assert.strictEqual(cassandraToken(['user-42', '2024-01-01']), 1243996615914522561n);
+  assert.strictEqual(cassandraToken(['tenant', new Uint8Array(300).fill(0xab)]), 5849157798153637124n);
+  assert.strictEqual(cassandraToken(['jsmith']), cassandraToken('jsmith'));
+  assert.throws(() => cassandraToken(['a', new Uint8Array(0x10000)]), RangeError);
+});
+
+test('cassandraToken: empty key is the minimum token', () => {
+  assert.strictEqual(cassandraToken(''), -(2n ** 63n));
+  assert.strictEqual(cassandraToken(new Uint8Array(0)), -(2n ** 63n));
+});
@@ -1,6 +1,13 @@
 import { test } from 'node:test';
 import assert from 'node:assert';
-import { v3, hash32, hash128, hash128x64 } from '../src/index.ts';
+import { readFileSync } from 'node:fs';
+import { v3, checkV1Migration, hash32, hash128, hash128x64 } from '../src/index.ts';
+
+const corpus = JSON.parse(
+  readFileSync(new URL('./vectors/v1.json', import.meta.url), 'utf8')
+) as {
+  vectors: { key: string; seed: number; hash32: number; hash128: string; hash128x64: string }[];
+};
 
 test('v1 compat: v3.x86.hash32 matches hash32', () => {
   const input = 'test';
@@ -19,3 +26,46 @@ test('v1 compat: v3.x64.hash128 matches hash128x64', () => {
   const seed = 42;
   assert.strictEqual(v3.x64.hash128(input, seed), hash128x64(input, { seed }));
 });
+
+test('v1 compat: reproduces v1 outputs for non-ASCII keys and odd seeds', () => {
+  for (const v of corpus.vectors) {
+    const label = `${JSON.stringify(v.key)} seed ${v.seed}`;
+    assert.strictEqual(v3.x86.hash32(v.key, v.seed), v.hash32, label);
+    assert.strictEqual(v3.x86.hash128(v.key, v.seed), v.hash128, label);
+    assert.strictEqual(v3.x64.hash128(v.key, v.seed), v.hash128x64, label);
+  }
+});
+
+test('v1 compat: non-ASCII keys differ from the v2 UTF-8 hashes', () => {
+  assert.notStrictEqual(v3.x86.hash32('café'), hash32('café'));
+  assert.strictEqual(v3.x86.hash32('café'), hash32('café', { encoding: 'latin1' }));
+  assert.notStrictEqual(v3.x64.hash128('日本'), hash128x64('日本', { encoding: 'latin1' }));
+});
+
+test('checkV1Migration: reports changed keys and whether latin1 reproduces v1', () => {
+  const unwrapped = { seedWrapped: false };
+  assert.deepStrictEqual(checkV1Migration('hello'), { changed: false, latin1Compatible: true, seed: 0, ...unwrapped });
+  assert.deepStrictEqual(checkV1Migration('café', 42), { changed: true, latin1Compatible: true, seed: 42, ...unwrapped });
+  assert.deepStrictEqual(checkV1Migration('日本'), { changed: true, latin1Compatible: false, seed: 0, ...unwrapped });
+  // Wide characters in full 16-character blocks are masked like latin1
+  assert.deepStrictEqual(checkV1Migration('日本語テキストです。こんにちは世界'.slice(0, 16)), {
+    changed: true,
+    latin1Compatible: true,
+    seed: 0,
+    ...unwrapped,
+  });
+});
+
+test('checkV1Migration: seeds v2 rejects are compared modulo 2^32', () => {
+  const key = 'a key of more than sixteen characters';
+  for (const v1Seed of [-1, -123456, 2 ** 32 + 5, 2 ** 40 + 7]) {
+    const report = checkV1Migration(key, v1Seed);
+    assert.deepStrictEqual(report, { changed: false, latin1Compatible: true, seed: v1Seed >>> 0, seedWrapped: true });
+    assert.strictEqual(v3.x86.hash32(key, v1Seed), hash32(key, report.seed));
+    assert.strictEqual(v3.x86.hash128(key, v1Seed), hash128(key, { seed: report.seed }));
+    assert.strictEqual(v3.x64.hash128(key, v1Seed), hash128x64(key, { seed: report.seed }));
+  }
+  for (const v1Seed of [1.5, -0.5, NaN, Infinity]) {
+    assert.throws(() => checkV1Migration(key, v1Seed), RangeError);
+  }
+});
@@ -0,0 +1,60 @@
+import { test } from 'node:test';
+import assert from 'node:assert';
+import { elasticsearchHash, elasticsearchShard } from '../src/index.ts';
+
+test('elasticsearchHash: Murmur3HashFunctionTests known values', () => {
+  assert.strictEqual(elasticsearchHash('hell'), 0x5a0cb7c3 | 0);
+  assert.strictEqual(elasticsearchHash('hello'), 0xd7c31989 | 0);
+  assert.strictEqual(elasticsearchHash('hello w'), 0x22ab2984 | 0);
+  assert.strictEqual(elasticsearchHash('hello wo'), 0xdf0ca123 | 0);
+  assert.strictEqual(elasticsearchHash('hello wor'), 0xe7744d61 | 0);
+  assert.strictEqual(elasticsearchHash('The quick brown fox jumps over the lazy dog'), 0xe07db09c | 0);
+  assert.strictEqual(elasticsearchHash('The quick brown fox jumps over the lazy cog'), 0x4e63d2ad | 0);
+});
+
+test('elasticsearchShard: legacy index with 8 shards (OperationRoutingTests.testBWC)', () => {
+  const termToShard: Record<string, number> = {
+    sEERfFzPSI: 1, cNRiIrjzYd: 7, BgfLBXUyWT: 5, cnepjZhQnb: 3, OKCmuYkeCK: 6,
+    OutXGRQUja: 5, yCdyocKWou: 1, KXuNWWNgVj: 2, DGJOYrpESx: 4, upLDybdTGs: 5,
+    yhZhzCPQby: 1, EyCVeiCouA: 1, tFyVdQauWR: 6, nyeRYDnDQr: 6, hswhrppvDH: 0,
+    BSiWvDOsNE: 5, YHicpFBSaY: 1, EquPtdKaBZ: 4, rSjLZHCDfT: 5, qoZALVcite: 7,
+  };
+  for (const [routing, shard] of Object.entries(termToShard)) {
+    assert.strictEqual(elasticsearchShard(routing, { numberOfShards: 8, routingNumShards: 8 }), shard, routing);
+  }
+});
+
+test('elasticsearchShard: partitioned index (OperationRoutingTests.testPartitionedIndexShrunk)', () => {
+  const routingIdToShard: Record<string, Record<string, number>> = {
+    a: { a_0: 1, a_1: 2, a_2: 2, a_3: 2, a_4: 1, a_5: 2 },
+    b: { b_0: 0, b_1: 0, b_2: 0, b_3: 0, b_4: 3, b_5: 3 },
+    c: { c_0: 1, c_1: 1, c_2: 0, c_3: 0, c_4: 0, c_5: 1 },
+    d: { d_0: 2, d_1: 2, d_2: 3, d_3: 3, d_4: 3, d_5: 3 },
+  };
+  for (const [routing, ids] of Object.entries(routingIdToShard)) {
+    for (const [id, shard] of Object.entries(ids)) {
+      const options = { numberOfShards: 4, routingNumShards: 8, routingPartitionSize: 3, id };
+      assert.strictEqual(elasticsearchShard(routing, options), shard, `${routing}/${id}`);
+    }
+  }
+});
+
+test('elasticsearchShard: default routing_num_shards', () => {
+  const cases: Array<[number, number]> = [[1, 1024], [3, 768], [5, 640], [8, 1024], [1024, 2048]];
+  for (const [numberOfShards, routingNumShards] of cases) {
+    for (const id of ['a', 'doc-1', 'doc-2', 'ü-ß', '😀']) {
+      assert.strictEqual(
+        elasticsearchShard(id, { numberOfShards }),
+        elasticsearchShard(id, { numberOfShards, routingNumShards }),
+        `${numberOfShards} shards`
+      );
+    }
+  }
+});
+
+test('elasticsearchShard: validates settings', () => {
+  assert.throws(() => elasticsearchShard('a', { numberOfShards: 0 }), RangeError);
+  assert.throws(() => elasticsearchShard('a', { numberOfShards: 3, routingNumShards: 8 }), RangeError);
+  assert.throws(() => elasticsearchShard('a', { numberOfShards: 4, routingNumShards: 4, routingPartitionSize: 4, id: 'x' }), RangeError);
+  assert.throws(() => elasticsearchShard('a', { numberOfShards: 4, routingPartitionSize: 2 }), TypeError);
+});
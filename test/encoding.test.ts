@@ -0,0 +1,163 @@
+import { test } from 'node:test';
+import assert from 'node:assert';
+import {
+  hash32,
+  hash128,
+  hash128x64,
+  createHash32,
+  createHash128,
+  createHash128x64,
+  type HashInput,
+} from '../src/index.ts';
+
+const encoder = new TextEncoder();
+
+const strings = [
+  '',
+  'hello',
+  'naïve café',
+  '日本語テキスト',
+  '😀 emoji 👍🏽',
+  'ascii prefix then ü',
+  'x'.repeat(300),
+  'é'.repeat(5000),
+  'y'.repeat(100000),
+  'z'.repeat(30000) + 'ß',
+];
+
+test('encoding: string input matches UTF-8 bytes for every algorithm', () => {
+  for (const str of strings) {
+    const bytes = encoder.encode(str);
+    assert.strictEqual(hash32(str, 9), hash32(bytes, 9));
+    assert.strictEqual(hash128(str, { seed: 9 }), hash128(bytes, { seed: 9 }));
+    assert.strictEqual(hash128x64(str, { seed: 9 }), hash128x64(bytes, { seed: 9 }));
+  }
+});
+
+test('encoding: shared buffer does not leak between calls', () => {
+  const long = 'a'.repeat(1000);
+  const expected = hash32(encoder.encode('short'));
+  hash32(long);
+  assert.strictEqual(hash32('short'), expected);
+  hash128('ü'.repeat(2000));
+  assert.strictEqual(hash32('short'), expected);
+});
+
+test('encoding: binary views hash their exact byte range', () => {
+  const backing = new Uint8Array(64);
+  for (let i = 0; i < backing.length; i++) {
+    backing[i] = i * 7;
+  }
+  const range = backing.slice(4, 36);
+  const inputs = [
+    range.buffer,
+    new Uint8Array(backing.buffer, 4, 32),
+    new Uint8ClampedArray(backing.buffer, 4, 32),
+    new Uint32Array(backing.buffer, 4, 8),
+    new Float32Array(backing.buffer, 4, 8),
+    new BigUint64Array(backing.slice(4, 36).buffer),
+    new DataView(backing.buffer, 4, 32),
+    Buffer.from(backing.buffer, 4, 32),
+    Buffer.from(backing).subarray(4, 36),
+  ];
+  for (const input of inputs) {
+    assert.strictEqual(hash32(input, 3), hash32(range, 3));
+    assert.strictEqual(hash128(input), hash128(range));
+    assert.strictEqual(hash128x64(input), hash128x64(range));
+  }
+});
+
+test('encoding: SharedArrayBuffer input', () => {
+  const shared = new SharedArrayBuffer(5);
+  new Uint8Array(shared).set(encoder.encode('hello'));
+  assert.strictEqual(hash32(shared), hash32('hello'));
+  assert.strictEqual(hash128x64(new Uint8Array(shared)), hash128x64('hello'));
+});
+
+test('encoding: streams accept binary views', () => {
+  const bytes = encoder.encode('hello world');
+  const stream = createHash128();
+  stream.update(new DataView(bytes.buffer, 0, 6));
+  stream.update(bytes.slice(6).buffer);
+  assert.strictEqual(stream.digest(), hash128('hello world'));
+});
+
+test('encoding: unsupported inputs throw TypeError', () => {
+  const invalid: unknown[] = [42, null, undefined, {}, [1, 2], true, 1n, new Map()];
+  if (typeof Blob !== 'undefined') {
+    invalid.push(new Blob(['hello']));
+  }
+  for (const value of invalid) {
+    const input = value as HashInput;
+    assert.throws(() => hash32(input), TypeError);
+    assert.throws(() => hash128(input), TypeError);
+    assert.throws(() => hash128x64(input), TypeError);
+    assert.throws(() => createHash32().update(input), TypeError);
+  }
+  assert.throws(() => hash32(42 as unknown as HashInput), /Cannot hash a number/);
+  assert.throws(() => hash32(null as unknown as HashInput), /Cannot hash null/);
+});
+
+const encodings = ['utf8', 'utf16le', 'latin1'] as const;
+
+// Lone and reversed surrogates, plus a pair split across the string edge
+const surrogates = ['\ud800', 'a\udc00b', '\udc00\ud800', '😀'.slice(0, 1), 'x\ud83d'.repeat(40)];
+
+test('encoding option: matches Node Buffer encodings', () => {
+  for (const str of [...strings, ...surrogates, 'Ā ÿ Ǿ']) {
+    for (const encoding of encodings) {
+      const bytes = new Uint8Array(Buffer.from(str, encoding));
+      const label = `${JSON.stringify(str.slice(0, 20))} ${encoding}`;
+      assert.strictEqual(hash32(str, { seed: 9, encoding }), hash32(bytes, 9), label);
+      assert.strictEqual(hash128(str, { seed: 9, encoding }), hash128(bytes, { seed: 9 }), label);
+      assert.strictEqual(hash128x64(str, { seed: 9, encoding }), hash128x64(bytes, { seed: 9 }), label);
+    }
+  }
+});
+
+test('encoding option: lone surrogates', () => {
+  // UTF-8 replaces them with U+FFFD; UTF-16LE keeps the raw code unit
+  assert.strictEqual(hash32('a\udc00b', { encoding: 'utf8' }), hash32(new Uint8Array([0x61, 0xef, 0xbf, 0xbd, 0x62])));
+  assert.strictEqual(hash32('\ud800', { encoding: 'utf16le' }), hash32(new Uint8Array([0x00, 0xd8])));
+  assert.strictEqual(hash32('\ud800', { encoding: 'latin1' }), hash32(new Uint8Array([0x00])));
+  assert.notStrictEqual(hash32('\ud800', { encoding: 'utf8' }), hash32('\udc00', { encoding: 'utf16le' }));
+
+  // Java's getBytes(UTF_8) replaces them with '?' and keeps valid pairs
+  const java = { encoding: 'utf8-java' } as const;
+  assert.strictEqual(hash32('a\udc00b', java), hash32('a?b'));
+  assert.strictEqual(hash128('\udc00\ud800', java), hash128('??'));
+  assert.strictEqual(hash128x64('😀\ud83d' + 'x\ud83d'.repeat(40), java), hash128x64('😀?' + 'x?'.repeat(40)));
+  assert.strictEqual(createHash32(java).update('😀'.slice(0, 1)).update('😀'.slice(1)).digest(), hash32('??'));
+});
+
+test('encoding option: emoji', () => {
+  assert.strictEqual(hash128x64('😀', { encoding: 'utf8' }), hash128x64(new Uint8Array([0xf0, 0x9f, 0x98, 0x80])));
+  assert.strictEqual(hash128x64('😀', { encoding: 'utf16le' }), hash128x64(new Uint8Array([0x3d, 0xd8, 0x00, 0xde])));
+  assert.strictEqual(hash128x64('😀', { encoding: 'latin1' }), hash128x64(new Uint8Array([0x3d, 0x00])));
+});
+
+test('encoding option: streams encode each update', () => {
+  for (const encoding of encodings) {
+    const expected = hash128('naïve café 日本', { encoding });
+    const stream = createHash128({ encoding }).update('naïve ').update('café').update(' 日本');
+    assert.strictEqual(stream.digest(), expected, encoding);
+    assert.strictEqual(stream.clone().digest(), expected, encoding);
+    assert.strictEqual(
+      createHash32({ encoding }).update('naï').update('ve').digest(),
+      hash32('naïve', { encoding }),
+      encoding
+    );
+    assert.strictEqual(
+      createHash128x64({ encoding }).update('😀').update('!').digest(),
+      hash128x64('😀!', { encoding }),
+      encoding
+    );
+  }
+});
+
+test('encoding option: rejects unknown encodings', () => {
+  const encoding = 'ascii' as 'utf8';
+  assert.throws(() => hash32('a', { encoding }), /Unknown string encoding: ascii/);
+  assert.throws(() => hash128('a', { encoding }), TypeError);
+  assert.throws(() => createHash128x64({ encoding }), TypeError);
+});
@@ -42,15 +42,15 @@ test('hash128: Uint8Array input', () => {
 });
 
 test('hash128: BigInt output', () => {
-  const hex = hash128('test') as string;
-  const bigint = hash128('test', { output: 'bigint' }) as bigint;
+  const hex = hash128('test');
+  const bigint = hash128('test', { output: 'bigint' });
 
   assert.strictEqual(typeof bigint, 'bigint');
   assert.strictEqual(bigint, BigInt('0x' + hex));
 });
 
 test('hash128: returns 32 character hex string', () => {
-  const result = hash128('test') as string;
+  const result = hash128('test');
   assert.strictEqual(result.length, 32);
   assert.ok(/^[0-9a-f]{32}$/.test(result));
 });
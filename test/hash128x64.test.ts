@@ -36,6 +36,18 @@ test('hash128x64: reference test vectors', () => {
   }
 });
 
+test('hash128x64: high-bit bytes across blocks and tails', () => {
+  const descending = (len: number) => new Uint8Array(len).map((_, i) => 255 - i);
+  assert.strictEqual(
+    hash128x64(descending(31), { seed: 0x9747b28c }),
+    '561b81cfaa80f64163878d29ef52f5c2'
+  );
+  assert.strictEqual(
+    hash128x64(descending(255), { seed: 0x9747b28c }),
+    'f42193b604cccc65a946c91dc9093059'
+  );
+});
+
 test('hash128x64: Uint8Array input', () => {
   const str = 'hello';
   const bytes = new TextEncoder().encode(str);
@@ -43,15 +55,15 @@ test('hash128x64: Uint8Array input', () => {
 });
 
 test('hash128x64: BigInt output', () => {
-  const hex = hash128x64('test') as string;
-  const bigint = hash128x64('test', { output: 'bigint' }) as bigint;
+  const hex = hash128x64('test');
+  const bigint = hash128x64('test', { output: 'bigint' });
 
   assert.strictEqual(typeof bigint, 'bigint');
   assert.strictEqual(bigint, BigInt('0x' + hex));
 });
 
 test('hash128x64: returns 32 character hex string', () => {
-  const result = hash128x64('test') as string;
+  const result = hash128x64('test');
   assert.strictEqual(result.length, 32);
   assert.ok(/^[0-9a-f]{32}$/.test(result));
 });
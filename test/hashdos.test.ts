@@ -0,0 +1,135 @@
+import { test } from 'node:test';
+import assert from 'node:assert';
+import {
+  createRandomizedHasher,
+  randomSeed,
+  randomSeed64,
+  chainLengthThreshold,
+  checkBucketChains,
+  hash32,
+  hash128x64,
+} from '../src/index.ts';
+
+const BUCKETS = 1024;
+
+function chainLengths(keys: string[], bucket: (key: string) => number): Uint32Array {
+  const chains = new Uint32Array(BUCKETS);
+  for (const key of keys) {
+    chains[bucket(key) % BUCKETS]++;
+  }
+  return chains;
+}
+
+test('randomSeed: uniform 32-bit values from crypto.getRandomValues', () => {
+  const seeds = new Set(Array.from({ length: 32 }, () => randomSeed()));
+  assert.ok(seeds.size > 30);
+  for (const seed of seeds) {
+    assert.ok(Number.isInteger(seed) && seed >= 0 && seed <= 0xffffffff);
+  }
+
+  const wide = new Set(Array.from({ length: 32 }, () => randomSeed64()));
+  assert.ok(wide.size > 30);
+  assert.ok([...wide].every((seed) => seed >= 0n && seed < 2n ** 64n));
+  assert.ok([...wide].some((seed) => seed >= 2n ** 32n));
+
+  const descriptor = Object.getOwnPropertyDescriptor(globalThis, 'crypto')!;
+  Object.defineProperty(globalThis, 'crypto', { value: undefined, configurable: true });
+  try {
+    assert.throws(() => randomSeed(), /getRandomValues\(\) is not available/);
+    assert.throws(() => randomSeed64(), /getRandomValues\(\) is not available/);
+  } finally {
+    Object.defineProperty(globalThis, 'crypto', descriptor);
+  }
+});
+
+test('createRandomizedHasher: process and instance scopes', () => {
+  const a = createRandomizedHasher();
+  const b = createRandomizedHasher();
+  assert.strictEqual(a.seed, b.seed);
+  assert.strictEqual(a.name, 'x86_32');
+  assert.strictEqual(typeof a.seed, 'number');
+  assert.strictEqual(a.hash('key'), hash32('key', a.seed as number));
+  assert.strictEqual(a.stream().update('k').update('ey').digest(), a.hash('key'));
+
+  const own = createRandomizedHasher({ scope: 'instance' });
+  const other = createRandomizedHasher({ scope: 'instance' });
+  assert.notStrictEqual(own.seed, other.seed);
+
+  // 64-bit seeded algorithms draw 64-bit seeds, shared per process too
+  const wide = createRandomizedHasher({ algorithm: 'x64_128', output: 'bigint' });
+  assert.strictEqual(typeof wide.seed, 'bigint');
+  assert.strictEqual(wide.hash('key'), hash128x64('key', { seed: wide.seed, output: 'bigint' }));
+  assert.strictEqual(createRandomizedHasher({ algorithm: 'murmur64a' }).seed, wide.seed);
+  const own64 = createRandomizedHasher({ algorithm: 'x64_128', scope: 'instance' });
+  assert.strictEqual(typeof own64.seed, 'bigint');
+  assert.notStrictEqual(own64.seed, wide.seed);
+  assert.strictEqual(typeof own64.rotate(), 'bigint');
+
+  assert.throws(() => createRandomizedHasher({ scope: 'thread' as never }), TypeError);
+  assert.throws(() => createRandomizedHasher({ algorithm: 'md5' }), TypeError);
+});
+
+test('createRandomizedHasher: rotate() replaces the seed of one hasher', () => {
+  const a = createRandomizedHasher();
+  const b = createRandomizedHasher();
+  const shared = a.seed;
+  const seed = a.rotate();
+  assert.strictEqual(a.seed, seed);
+  assert.notStrictEqual(seed, shared);
+  assert.strictEqual(a.hash('key'), hash32('key', seed as number));
+  assert.strictEqual(b.seed, shared);
+  assert.strictEqual(createRandomizedHasher().seed, shared);
+});
+
+test('chainLengthThreshold: Poisson tail bound', () => {
+  assert.strictEqual(chainLengthThreshold(0, 16), 0);
+  assert.strictEqual(chainLengthThreshold(1, 1), 1);
+  assert.strictEqual(chainLengthThreshold(1000, 1000), 11);
+  assert.strictEqual(chainLengthThreshold(1_000_000, 1_000_000), 14);
+  assert.ok(chainLengthThreshold(1000, 1000, 0.01) < 11);
+  for (const [keys, buckets, rate] of [[-1, 1, 0.1], [1, 0, 0.1], [1, 1.5, 0.1], [1, 1, 0], [1, 1, 1]]) {
+    assert.throws(() => chainLengthThreshold(keys, buckets, rate), RangeError);
+  }
+  // Heavily loaded tables are answered without stepping through every length
+  const start = performance.now();
+  const threshold = chainLengthThreshold(2 ** 53 - 1, 3);
+  assert.ok(performance.now() - start < 100);
+  assert.ok(threshold > (2 ** 53 - 1) / 3 && threshold < (2 ** 53 - 1) / 3 + 1e9);
+  assert.strictEqual(chainLengthThreshold(1e9, 4), 250079587);
+});
+
+test('checkBucketChains: validates chain lengths and accepts empty tables', () => {
+  assert.deepStrictEqual(checkBucketChains([]), {
+    keys: 0,
+    buckets: 0,
+    longestChain: 0,
+    threshold: 0,
+    suspicious: false,
+  });
+  assert.strictEqual(checkBucketChains([0, 0, 0]).suspicious, false);
+  assert.throws(() => checkBucketChains([1, -5, 2]), /Invalid chain length in bucket 1: -5/);
+  assert.throws(() => checkBucketChains([1.5]), RangeError);
+  assert.throws(() => checkBucketChains([NaN]), RangeError);
+});
+
+test('checkBucketChains: flags keys crafted to collide for a known seed', () => {
+  const normal = Array.from({ length: 2000 }, (_, i) => `user-${i}`);
+  const seeded = createRandomizedHasher({ scope: 'instance' });
+  const report = checkBucketChains(chainLengths(normal, (k) => seeded.hash(k)));
+  assert.strictEqual(report.keys, 2000);
+  assert.strictEqual(report.buckets, BUCKETS);
+  assert.strictEqual(report.suspicious, false);
+
+  // An attacker who knows the seed (here the default, 0) picks colliding keys
+  const crafted: string[] = [];
+  for (let i = 0; crafted.length < 100; i++) {
+    if (hash32(`attack-${i}`) % BUCKETS === 0) crafted.push(`attack-${i}`);
+  }
+  const flooded = checkBucketChains(chainLengths([...normal, ...crafted], (k) => hash32(k)));
+  assert.strictEqual(flooded.suspicious, true);
+  assert.ok(flooded.longestChain > flooded.threshold);
+
+  // The same keys spread out under a secret random seed
+  const spread = checkBucketChains(chainLengths([...normal, ...crafted], (k) => seeded.hash(k)));
+  assert.strictEqual(spread.suspicious, false);
+});
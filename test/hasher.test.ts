@@ -0,0 +1,106 @@
+import { test } from 'node:test';
+import assert from 'node:assert';
+import {
+  createHasher,
+  registerAlgorithm,
+  listAlgorithms,
+  hash32,
+  hash128,
+  hash128x64,
+  murmur2,
+  murmur2a,
+  murmur64a,
+  type HasherStream,
+} from '../src/index.ts';
+
+test('createHasher: built-in algorithms match the direct functions', () => {
+  const cases = [
+    ['x86_32', 4, hash32('hello', 7)],
+    ['x86_128', 16, hash128('hello', { seed: 7 })],
+    ['x64_128', 16, hash128x64('hello', { seed: 7 })],
+    ['murmur2', 4, murmur2('hello', 7)],
+    ['murmur2a', 4, murmur2a('hello', 7)],
+    ['murmur64a', 8, murmur64a('hello', { seed: 7 })],
+  ] as const;
+  for (const [algorithm, digestSize, expected] of cases) {
+    const hasher = createHasher({ algorithm, seed: 7 });
+    assert.strictEqual(hasher.name, algorithm);
+    assert.strictEqual(hasher.digestSize, digestSize, algorithm);
+    assert.strictEqual(hasher.hash('hello'), expected, algorithm);
+    const stream = hasher.stream().update('hel');
+    assert.strictEqual(stream.clone().update('lo').digest(), expected, algorithm);
+    assert.strictEqual(stream.reset().update('hello').digest(), expected, algorithm);
+  }
+  assert.deepStrictEqual(listAlgorithms().slice(0, 6), cases.map(([name]) => name));
+});
+
+test('createHasher: output, encoding, byteOrder and profile are applied', () => {
+  const options = { output: 'bytes', byteOrder: 'little', encoding: 'utf16le' } as const;
+  assert.deepStrictEqual(
+    createHasher({ algorithm: 'x64_128', seed: 2n ** 40n, ...options }).hash('héllo'),
+    hash128x64('héllo', { seed: 2n ** 40n, ...options })
+  );
+  assert.strictEqual(
+    createHasher({ algorithm: 'x86_32', profile: 'mmh3' }).hash('foo'),
+    hash32('foo', { profile: 'mmh3' })
+  );
+  assert.strictEqual(
+    createHasher({ algorithm: 'x86_128', output: 'bigint' }).stream().update('foo').digest(),
+    hash128('foo', { output: 'bigint' })
+  );
+  assert.strictEqual(
+    createHasher({ algorithm: 'murmur64a', output: 'bigint', seed: 1n }).hash('foo'),
+    murmur64a('foo', { output: 'bigint', seed: 1n })
+  );
+});
+
+test('createHasher: invalid names and options throw on creation', () => {
+  assert.throws(() => createHasher({ algorithm: 'md5' }), /Unknown hash algorithm: md5/);
+  assert.throws(() => createHasher({ algorithm: 'x86_32', seed: -1 }), RangeError);
+  assert.throws(() => createHasher({ algorithm: 'x86_32', seed: 1n }), TypeError);
+  assert.throws(() => createHasher({ algorithm: 'x86_128', output: 'pair' }), TypeError);
+  assert.throws(() => createHasher({ algorithm: 'x64_128', encoding: 'ascii' as never }), TypeError);
+  assert.throws(() => createHasher({ algorithm: 'murmur2', encoding: 'latin1' }), /murmur2: latin1/);
+  assert.throws(() => createHasher({ algorithm: 'murmur2a', output: 'hex' }), TypeError);
+  assert.throws(() => createHasher({ algorithm: 'murmur64a', output: 'bytes' }), TypeError);
+  assert.throws(() => createHasher({ algorithm: 'murmur2', profile: 'mmh3' }), TypeError);
+  assert.throws(() => createHasher({ algorithm: 'toString' }), /Unknown hash algorithm/);
+});
+
+test('registerAlgorithm: plugs in new algorithms', () => {
+  class SumStream implements HasherStream<number> {
+    private sum = 0;
+    update(input: string | Uint8Array): this {
+      for (const byte of new TextEncoder().encode(String(input))) this.sum += byte;
+      return this;
+    }
+    digest(): number {
+      return this.sum & 0xff;
+    }
+    clone(): SumStream {
+      return Object.assign(new SumStream(), { sum: this.sum });
+    }
+    reset(): this {
+      this.sum = 0;
+      return this;
+    }
+  }
+  registerAlgorithm('sum8', {
+    digestSize: 1,
+    create(options) {
+      if (options.seed !== undefined) throw new TypeError('sum8 takes no seed');
+      return {
+        hash: (input) => new SumStream().update(input as string).digest(),
+        stream: () => new SumStream(),
+      };
+    },
+  });
+
+  const hasher = createHasher({ algorithm: 'sum8' });
+  assert.strictEqual(hasher.hash('ab'), (97 + 98) & 0xff);
+  assert.strictEqual(hasher.digestSize, 1);
+  assert.ok(listAlgorithms().includes('sum8'));
+  assert.throws(() => createHasher({ algorithm: 'sum8', seed: 1 }), /no seed/);
+  assert.throws(() => registerAlgorithm('sum8', { digestSize: 1, create: () => { throw new Error(); } }), /already registered/);
+  assert.throws(() => registerAlgorithm('x86_32', { digestSize: 1, create: () => { throw new Error(); } }), /already registered/);
+});
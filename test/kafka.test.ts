@@ -0,0 +1,33 @@
+import { test } from 'node:test';
+import assert from 'node:assert';
+import { kafkaPartition, murmur2 } from '../src/index.ts';
+
+test('kafkaPartition: murmur2 matches Kafka Utils.murmur2', () => {
+  // UtilsTest.testMurmur2 in the Kafka Java client
+  const cases: Array<[string, number]> = [
+    ['21', -973932308],
+    ['foobar', -790332482],
+    ['a-little-bit-long-string', -985981536],
+    ['a-little-bit-longer-string', -1486304829],
+    ['lkjh234lh9fiuh90y23oiuhsafujhadof229phr9h19h89h8', -58897971],
+    ['abc', 479470107],
+  ];
+  for (const [key, expected] of cases) {
+    assert.strictEqual(murmur2(key, 0x9747b28c) | 0, expected, key);
+  }
+});
+
+test('kafkaPartition: toPositive(murmur2(key)) % numPartitions', () => {
+  // murmur2('foobar') = -790332482; toPositive() = 1357151166
+  assert.strictEqual(kafkaPartition('foobar', 3), 1357151166 % 3);
+  assert.strictEqual(kafkaPartition('foobar', 100), 66);
+  // murmur2('abc') = 479470107
+  assert.strictEqual(kafkaPartition('abc', 6), 479470107 % 6);
+  assert.strictEqual(kafkaPartition(new TextEncoder().encode('abc'), 6), kafkaPartition('abc', 6));
+  assert.strictEqual(kafkaPartition('anything', 1), 0);
+});
+
+test('kafkaPartition: rejects invalid partition counts', () => {
+  assert.throws(() => kafkaPartition('a', 0), RangeError);
+  assert.throws(() => kafkaPartition('a', 1.5), RangeError);
+});
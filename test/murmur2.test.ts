@@ -0,0 +1,44 @@
+import { test } from 'node:test';
+import assert from 'node:assert';
+import { murmur2, createMurmur2 } from '../src/murmur2.ts';
+
+// Computed with MurmurHash2() from SMHasher
+const testVectors: Array<{ input: string; seed?: number; expected: number }> = [
+  { input: '', expected: 0 },
+  { input: '', seed: 0x9747b28c, expected: 275646681 },
+  { input: 'a', expected: 2456313694 },
+  { input: 'ab', expected: 446775395 },
+  { input: 'abc', expected: 324500635 },
+  { input: 'abcd', expected: 646393889 },
+  { input: 'hello', expected: 3848350155 },
+  { input: 'hello world', seed: 0x9747b28c, expected: 1221641059 },
+  { input: 'The quick brown fox jumps over the lazy dog', expected: 556214736 },
+  { input: 'naïve café 😀', expected: 3372519008 },
+];
+
+test('murmur2: reference test vectors', () => {
+  for (const { input, seed, expected } of testVectors) {
+    assert.strictEqual(murmur2(input, seed), expected, `murmur2("${input}", ${seed ?? 0})`);
+  }
+});
+
+test('murmur2: Uint8Array input', () => {
+  assert.strictEqual(murmur2(new TextEncoder().encode('naïve café')), murmur2('naïve café'));
+});
+
+test('createMurmur2: matches one-shot for every chunk split', () => {
+  const input = 'The quick brown fox jumps over the lazy dog';
+  for (let split = 0; split <= input.length; split++) {
+    const stream = createMurmur2(7).update(input.slice(0, split)).update(input.slice(split));
+    assert.strictEqual(stream.digest(), murmur2(input, 7), `split at ${split}`);
+  }
+});
+
+test('createMurmur2: digest(), clone() and reset()', () => {
+  const stream = createMurmur2().update('hello');
+  assert.strictEqual(stream.digest(), stream.digest());
+  const fork = stream.clone().update(' world');
+  assert.strictEqual(fork.digest(), murmur2('hello world'));
+  assert.strictEqual(stream.update(' there').digest(), murmur2('hello there'));
+  assert.strictEqual(stream.reset().update('abc').digest(), murmur2('abc'));
+});
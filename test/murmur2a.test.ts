@@ -0,0 +1,49 @@
+import { test } from 'node:test';
+import assert from 'node:assert';
+import { murmur2a, createMurmur2A } from '../src/murmur2a.ts';
+
+// Computed with MurmurHash2A() from SMHasher
+const testVectors: Array<{ input: string; seed?: number; expected: number }> = [
+  { input: '', expected: 0 },
+  { input: '', seed: 0x9747b28c, expected: 3816574809 },
+  { input: 'a', expected: 134449291 },
+  { input: 'ab', expected: 1636111791 },
+  { input: 'abc', expected: 291020647 },
+  { input: 'abcd', expected: 1545157703 },
+  { input: 'hello', expected: 259931098 },
+  { input: 'hello world', seed: 0x9747b28c, expected: 3655136147 },
+  { input: 'The quick brown fox jumps over the lazy dog', expected: 1407301093 },
+  { input: 'naïve café 😀', expected: 3731473867 },
+];
+
+test('murmur2a: reference test vectors', () => {
+  for (const { input, seed, expected } of testVectors) {
+    assert.strictEqual(murmur2a(input, seed), expected, `murmur2a("${input}", ${seed ?? 0})`);
+  }
+});
+
+test('createMurmur2A: matches one-shot for every chunk split', () => {
+  const input = 'The quick brown fox jumps over the lazy dog';
+  for (let split = 0; split <= input.length; split++) {
+    const stream = createMurmur2A(7).update(input.slice(0, split)).update(input.slice(split));
+    assert.strictEqual(stream.digest(), murmur2a(input, 7), `split at ${split}`);
+  }
+});
+
+test('createMurmur2A: byte-at-a-time updates match one-shot', () => {
+  const bytes = new TextEncoder().encode('naïve café 😀');
+  const stream = createMurmur2A();
+  for (const byte of bytes) {
+    stream.update(new Uint8Array([byte]));
+  }
+  assert.strictEqual(stream.digest(), murmur2a(bytes));
+});
+
+test('createMurmur2A: digest(), clone() and reset()', () => {
+  const stream = createMurmur2A().update('hello');
+  assert.strictEqual(stream.digest(), stream.digest());
+  const fork = stream.clone().update(' world');
+  assert.strictEqual(fork.digest(), murmur2a('hello world'));
+  assert.strictEqual(stream.update(' there').digest(), murmur2a('hello there'));
+  assert.strictEqual(stream.reset().update('abc').digest(), murmur2a('abc'));
+});
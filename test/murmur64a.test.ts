@@ -0,0 +1,51 @@
+import { test } from 'node:test';
+import assert from 'node:assert';
+import { murmur64a, createMurmur64A } from '../src/murmur64a.ts';
+
+// Computed with MurmurHash64A() from SMHasher
+const testVectors: Array<{ input: string; seed?: number | bigint; expected: string }> = [
+  { input: '', expected: '0000000000000000' },
+  { input: '', seed: 0x9747b28c, expected: '8397626cd6895052' },
+  { input: 'a', expected: '071717d2d36b6b11' },
+  { input: 'abc', expected: '9cc9c33498a95efb' },
+  { input: 'abcd', expected: 'ec1044c45cc5097a' },
+  { input: 'hello', expected: '1e68d17c457bf117' },
+  { input: 'hello', seed: 0xdeadbeefcafebaben, expected: '16e23dc23c223621' },
+  { input: 'hello world', seed: 0x9747b28c, expected: '5afe4b039590ded9' },
+  { input: 'The quick brown fox jumps over the lazy dog', expected: '5589ca33042a861b' },
+  { input: 'naïve café 😀', expected: '86616cac434500f5' },
+];
+
+test('murmur64a: reference test vectors', () => {
+  for (const { input, seed, expected } of testVectors) {
+    assert.strictEqual(murmur64a(input, { seed }), expected, `murmur64a("${input}", ${seed ?? 0})`);
+  }
+});
+
+test('murmur64a: bigint output and seeds', () => {
+  assert.strictEqual(murmur64a('hello', { output: 'bigint' }), 0x1e68d17c457bf117n);
+  assert.strictEqual(murmur64a('abc', { seed: 0x9747b28c }), murmur64a('abc', { seed: 0x9747b28cn }));
+});
+
+test('murmur64a: rejects unsupported output formats', () => {
+  for (const output of ['unsigned', 'bytes', 'pair', 'HEX']) {
+    assert.throws(() => murmur64a('abc', { output: output as never }), /Unsupported output format for murmur64a/);
+    assert.throws(() => createMurmur64A({ output: output as never }), TypeError);
+  }
+});
+
+test('createMurmur64A: matches one-shot for every chunk split', () => {
+  const input = 'The quick brown fox jumps over the lazy dog';
+  for (let split = 0; split <= input.length; split++) {
+    const stream = createMurmur64A({ seed: 7n }).update(input.slice(0, split)).update(input.slice(split));
+    assert.strictEqual(stream.digest(), murmur64a(input, { seed: 7n }), `split at ${split}`);
+  }
+});
+
+test('createMurmur64A: digest(), clone() and reset()', () => {
+  const stream = createMurmur64A({ output: 'bigint' }).update('hello');
+  assert.strictEqual(stream.digest(), stream.digest());
+  const fork = stream.clone().update(' world');
+  assert.strictEqual(fork.digest(), murmur64a('hello world', { output: 'bigint' }));
+  assert.strictEqual(stream.reset().update('abc').digest(), murmur64a('abc', { output: 'bigint' }));
+});
@@ -0,0 +1,90 @@
+import { test } from 'node:test';
+import assert from 'node:assert';
+import {
+  hash32,
+  hash128,
+  hash128x64,
+  createHash32,
+  createHash128,
+  createHash128x64,
+  restoreHash32,
+  restoreHash128x64,
+} from '../src/index.ts';
+
+const hex = (bytes: unknown) => Buffer.from(bytes as Uint8Array).toString('hex');
+
+test('output: bytes match the hex digest', () => {
+  for (const input of ['', 'foo', 'The quick brown fox jumps over the lazy dog']) {
+    assert.strictEqual(hex(hash128(input, { output: 'bytes' })), hash128(input));
+    assert.strictEqual(hex(hash128x64(input, { output: 'bytes' })), hash128x64(input));
+  }
+});
+
+test('output: little-endian bytes match the canonical x64 digest', () => {
+  // Python: mmh3.hash_bytes('foo')
+  const canonical = Buffer.from('aE\xf5\x01W\x86q\xe2\x87}\xba+\xe4\x87\xaf~', 'latin1');
+  const bytes = hash128x64('foo', { output: 'bytes', byteOrder: 'little' });
+  assert.ok(bytes instanceof Uint8Array);
+  assert.deepStrictEqual(Buffer.from(bytes), canonical);
+  assert.strictEqual(hash128x64('foo', { byteOrder: 'little' }), canonical.toString('hex'));
+});
+
+test('output: little-endian reverses each 32-bit lane for x86_128', () => {
+  const big = hash128('foo', { output: 'bytes' });
+  const little = hash128('foo', { output: 'bytes', byteOrder: 'little' });
+  for (let i = 0; i < 16; i++) {
+    assert.strictEqual(little[i], big[(i & ~3) + 3 - (i & 3)]);
+  }
+});
+
+test('output: pair returns the 64-bit halves', () => {
+  // Python: mmh3.hash64('foo'), which reports signed halves
+  const [h1, h2] = hash128x64('foo', { output: 'pair' });
+  assert.strictEqual(BigInt.asIntN(64, h1), -2129773440516405919n);
+  assert.strictEqual(BigInt.asIntN(64, h2), 9128664383759220103n);
+  assert.strictEqual(hash128x64('foo', { output: 'bigint' }), (h1 << 64n) | h2);
+  assert.strictEqual(hash128x64('foo', { output: 'bigint', byteOrder: 'little' }), (h2 << 64n) | h1);
+});
+
+test('output: base64 and base64url', () => {
+  for (const input of ['', 'a', 'foo', 'hello world']) {
+    const bytes = Buffer.from(hash128x64(input, { output: 'bytes' }));
+    assert.strictEqual(hash128x64(input, { output: 'base64' }), bytes.toString('base64'));
+    assert.strictEqual(hash128x64(input, { output: 'base64url' }), bytes.toString('base64url'));
+    const little = Buffer.from(hash128(input, { output: 'bytes', byteOrder: 'little' }));
+    assert.strictEqual(hash128(input, { output: 'base64', byteOrder: 'little' }), little.toString('base64'));
+  }
+});
+
+test('output: hash32 signed, hex and bytes', () => {
+  assert.strictEqual(hash32('foo', { output: 'signed' }), -156908512);
+  assert.strictEqual(hash32('foo', { output: 'unsigned' }), 4138058784);
+  assert.strictEqual(hash32('foo', { seed: 0 }), hash32('foo'));
+  assert.strictEqual(hash32('foo', { output: 'hex' }), 'f6a5c420');
+  assert.strictEqual(hash32('foo', { output: 'hex', byteOrder: 'little' }), '20c4a5f6');
+  assert.deepStrictEqual(hash32('foo', { output: 'bytes', byteOrder: 'little' }), new Uint8Array([0x20, 0xc4, 0xa5, 0xf6]));
+  assert.strictEqual(hash32('foo', { seed: 7, output: 'signed' }), hash32('foo', 7) | 0);
+});
+
+test('output: streams honour output and byteOrder', () => {
+  const options = { seed: 9, output: 'base64url', byteOrder: 'little' } as const;
+  assert.strictEqual(createHash128(options).update('fo').update('o').digest(), hash128('foo', options));
+  assert.strictEqual(createHash128x64(options).update('f').update('oo').digest(), hash128x64('foo', options));
+  const stream32 = createHash32({ seed: 9, output: 'signed' }).update('foo');
+  assert.strictEqual(stream32.digest(), hash32('foo', { seed: 9, output: 'signed' }));
+  assert.strictEqual(stream32.clone().digest(), stream32.digest());
+});
+
+test('output: exported state keeps output and byteOrder', () => {
+  const stream = createHash128x64({ output: 'pair', byteOrder: 'little' }).update('foo');
+  assert.deepStrictEqual(restoreHash128x64(stream.exportState()).digest(), stream.digest());
+  const stream32 = createHash32({ output: 'bytes', byteOrder: 'little' }).update('foo');
+  assert.deepStrictEqual(restoreHash32(stream32.exportState()).digest(), stream32.digest());
+});
+
+test('output: rejects unsupported formats', () => {
+  assert.throws(() => hash128('foo', { output: 'pair' as 'hex' }), TypeError);
+  assert.throws(() => hash128x64('foo', { output: 'octal' as 'hex' }), TypeError);
+  assert.throws(() => hash32('foo', { output: 'bigint' as 'hex' }), TypeError);
+  assert.throws(() => createHash128({ byteOrder: 'middle' as 'big' }), TypeError);
+});
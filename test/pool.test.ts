@@ -0,0 +1,187 @@
+import { test } from 'node:test';
+import assert from 'node:assert';
+import { createHashPool } from '../src/node/index.ts';
+import { hash32, hash128, hash128x64 } from '../src/index.ts';
+
+const keys = Array.from({ length: 500 }, (_, i) => `key-${i}`);
+
+test('HashPool: results match one-shot functions in input order', async () => {
+  const pool = createHashPool({ size: 2, batchSize: 37 });
+  try {
+    const [h32, h128, h128x64] = await Promise.all([
+      pool.hash32(keys, 42),
+      pool.hash128(keys, { seed: 42 }),
+      pool.hash128x64(keys, { seed: 42, output: 'bigint' }),
+    ]);
+    assert.deepStrictEqual(Array.from(h32), keys.map((k) => hash32(k, 42)));
+    assert.deepStrictEqual(h128, keys.map((k) => hash128(k, { seed: 42 })));
+    assert.deepStrictEqual(h128x64, keys.map((k) => hash128x64(k, { seed: 42, output: 'bigint' })));
+  } finally {
+    await pool.close();
+  }
+});
+
+test('HashPool: SharedArrayBuffer and transferred inputs', async () => {
+  const pool = createHashPool({ size: 1, batchSize: 2 });
+  try {
+    const shared = new Uint8Array(new SharedArrayBuffer(64)).fill(7);
+    const sharedInputs = [shared.subarray(0, 10), shared.subarray(10, 64)];
+    const expected = sharedInputs.map((b) => hash32(b));
+    assert.deepStrictEqual(Array.from(await pool.hash32(sharedInputs)), expected);
+
+    const owned = [new Uint8Array([1, 2, 3]), new Uint8Array([4, 5, 6, 7])];
+    const ownedExpected = owned.map((b) => hash128x64(b));
+    assert.deepStrictEqual(await pool.hash128x64(owned, { transfer: true }), ownedExpected);
+    assert.strictEqual(owned[0].byteLength, 0, 'transferred buffer is detached');
+  } finally {
+    await pool.close();
+  }
+});
+
+test('HashPool: transfer copies views into larger buffers, such as pooled Buffers', async () => {
+  const pool = createHashPool({ size: 1, batchSize: 1 });
+  try {
+    const owned = new Uint8Array([1, 2, 3]);
+    // The only view of Node's Buffer pool in this call, in a later batch
+    const pooled = Buffer.from('pooled');
+    const slice = new Uint8Array(32).fill(9).subarray(4, 12);
+    const inputs = [owned, pooled, slice];
+    const expected = inputs.map((b) => hash32(b));
+    assert.deepStrictEqual(Array.from(await pool.hash32(inputs, 0, { transfer: true })), expected);
+    assert.strictEqual(owned.byteLength, 0, 'an owned buffer is transferred');
+    assert.strictEqual(pooled.toString(), 'pooled');
+    assert.strictEqual(slice.byteLength, 8);
+  } finally {
+    await pool.close();
+  }
+});
+
+test('HashPool: ArrayBuffer, DataView and TypedArray inputs', async () => {
+  const pool = createHashPool({ size: 1, batchSize: 2 });
+  try {
+    const bytes = new Uint8Array(32).map((_, i) => i * 3);
+    const inputs = [
+      bytes.slice(0, 8).buffer,
+      new DataView(bytes.buffer, 8, 8),
+      new Uint16Array(bytes.buffer, 16, 8),
+    ];
+    const expected = inputs.map((b) => hash128(b));
+    assert.deepStrictEqual(await pool.hash128(inputs), expected);
+    await assert.rejects(pool.hash32([42 as unknown as string]), TypeError);
+  } finally {
+    await pool.close();
+  }
+});
+
+test('HashPool: compatibility profiles apply output and string encoding', async () => {
+  const pool = createHashPool({ size: 1, batchSize: 64 });
+  try {
+    const options = { profile: 'guava', seed: 3 } as const;
+    assert.deepStrictEqual(await pool.hash128x64(keys, options), keys.map((k) => hash128x64(k, options)));
+  } finally {
+    await pool.close();
+  }
+});
+
+test('HashPool: size 0 hashes in-thread', async () => {
+  const pool = createHashPool({ size: 0 });
+  assert.deepStrictEqual(Array.from(await pool.hash32(['a', 'b'])), [hash32('a'), hash32('b')]);
+  await pool.close();
+});
+
+test('HashPool: abort rejects with the signal reason', async () => {
+  const pool = createHashPool({ size: 1, batchSize: 1 });
+  try {
+    const controller = new AbortController();
+    const pending = pool.hash128x64(keys, { signal: controller.signal });
+    controller.abort(new Error('stop'));
+    await assert.rejects(pending, /stop/);
+
+    await assert.rejects(pool.hash32(keys, 0, { signal: AbortSignal.abort() }), { name: 'AbortError' });
+
+    // The pool stays usable after an abort
+    assert.strictEqual((await pool.hash32(['x']))[0], hash32('x'));
+  } finally {
+    await pool.close();
+  }
+});
+
+test('HashPool: close() rejects outstanding and later work', async () => {
+  const pool = createHashPool({ size: 1, batchSize: 1 });
+  const pending = assert.rejects(pool.hash32(keys), /Hash pool is closed/);
+  await pool.close();
+  await pending;
+  await assert.rejects(pool.hash32(['a']), /Hash pool is closed/);
+});
+
+test('HashPool: rejects invalid options', () => {
+  assert.throws(() => createHashPool({ size: -1 }), RangeError);
+  assert.throws(() => createHashPool({ batchSize: 0 }), RangeError);
+});
+
+test('HashPool: validates seeds and accepts 64-bit x64 seeds', async () => {
+  const pool = createHashPool({ size: 1 });
+  try {
+    await assert.rejects(pool.hash32(keys, 1.5), RangeError);
+    await assert.rejects(pool.hash128(keys, { seed: -1 }), RangeError);
+    await assert.rejects(pool.hash128x64(keys, { seed: 2n ** 64n }), RangeError);
+    const seed = 0xfedcba9876543210n;
+    assert.deepStrictEqual(
+      await pool.hash128x64(keys.slice(0, 10), { seed }),
+      keys.slice(0, 10).map((k) => hash128x64(k, { seed }))
+    );
+  } finally {
+    await pool.close();
+  }
+});
+
+test('HashPool: falls back in-thread when the worker script cannot be loaded', async () => {
+  const workerUrl = new URL('./missing-hash-worker.js', import.meta.url);
+  const pool = createHashPool({ size: 2, batchSize: 50, workerUrl });
+  try {
+    assert.deepStrictEqual(Array.from(await pool.hash32(keys, 5)), keys.map((k) => hash32(k, 5)));
+    assert.deepStrictEqual(await pool.hash128(keys), keys.map((k) => hash128(k)));
+  } finally {
+    await pool.close();
+  }
+});
+
+test('HashPool: transferred inputs are never re-hashed after a worker fails', async () => {
+  const workerUrl = new URL('./missing-hash-worker.js', import.meta.url);
+  const pool = createHashPool({ size: 1, workerUrl });
+  try {
+    const inputs = [new Uint8Array([1, 2, 3])];
+    await assert.rejects(pool.hash32(inputs, 0, { transfer: true }), { code: 'ERR_MODULE_NOT_FOUND' });
+    assert.strictEqual(inputs[0].byteLength, 0);
+  } finally {
+    await pool.close();
+  }
+});
+
+test('HashPool: a worker that exits fails its task and is replaced', async () => {
+  // Replies to the first message, then exits without an 'error' event
+  const script = `
+    import { parentPort } from 'node:worker_threads';
+    let calls = 0;
+    parentPort.on('message', (task) => {
+      if (calls++ > 0) process.exit(3);
+      parentPort.postMessage({ id: task.id, words: new Uint32Array(task.inputs.length) });
+    });`;
+  const workerUrl = new URL(`data:text/javascript,${encodeURIComponent(script)}`);
+  const pool = createHashPool({ size: 1, batchSize: 1, workerUrl });
+  try {
+    await assert.rejects(pool.hash32(['a', 'b']), /exited with code 3/);
+    assert.deepStrictEqual(Array.from(await pool.hash32(['c'])), [0]);
+  } finally {
+    await pool.close();
+  }
+
+  // Exiting before the first reply counts as a load failure
+  const exiting = new URL('data:text/javascript,process.exit(1)');
+  const fallback = createHashPool({ size: 1, workerUrl: exiting });
+  try {
+    assert.deepStrictEqual(Array.from(await fallback.hash32(['a'])), [hash32('a')]);
+  } finally {
+    await fallback.close();
+  }
+});
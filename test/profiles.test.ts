@@ -0,0 +1,108 @@
+import { test } from 'node:test';
+import assert from 'node:assert';
+import { readFileSync } from 'node:fs';
+import {
+  hash32,
+  hash128,
+  hash128x64,
+  createHash32,
+  createHash128x64,
+  restoreHash128x64,
+} from '../src/index.ts';
+
+interface Vector {
+  input: string;
+  seed: number;
+  hash32?: number;
+  hash128?: string;
+  hash128x64?: string | string[];
+  hash64?: string[];
+}
+
+// Cross-language vectors; see each profile's "source" for provenance
+const vectors: Record<string, { source: string; vectors: Vector[] }> = JSON.parse(
+  readFileSync(new URL('./vectors/compat.json', import.meta.url), 'utf8')
+);
+
+test('profile mmh3: matches Python mmh3', () => {
+  for (const v of vectors.mmh3.vectors) {
+    const options = { seed: v.seed, profile: 'mmh3' } as const;
+    const label = `${JSON.stringify(v.input)} seed ${v.seed}`;
+    assert.strictEqual(hash32(v.input, options), v.hash32, label);
+    assert.strictEqual(hash128(v.input, options), BigInt(v.hash128!), label);
+    assert.strictEqual(hash128x64(v.input, options), BigInt(v.hash128x64 as string), label);
+    const [h1, h2] = hash128x64(v.input, { seed: v.seed, output: 'pair' });
+    assert.deepStrictEqual([BigInt.asIntN(64, h1), BigInt.asIntN(64, h2)], v.hash64!.map(BigInt), label);
+  }
+});
+
+test('profile guava: hashUnencodedChars() hashes UTF-16 code units', () => {
+  for (const v of vectors.guava.vectors) {
+    assert.strictEqual(hash32(v.input, { seed: v.seed, profile: 'guava' }), v.hash32, v.input);
+  }
+});
+
+test('profile guava-utf8: lone surrogates become "?" as in String.getBytes(UTF_8)', () => {
+  // Hashes of the bytes 61 3f 62 that Java produces for "a\uD800b"
+  assert.strictEqual(hash32('a\ud800b', { profile: 'guava-utf8' }), -1608477688);
+  assert.strictEqual(hash128x64('a\ud800b', { profile: 'guava-utf8' }), '4adb1b0489e6f965793498cfb8922153');
+  assert.strictEqual(hash32('😀\ud83d', { profile: 'guava-utf8' }), hash32('😀?', { profile: 'guava-utf8' }));
+});
+
+test('profile guava-utf8: matches Guava hashString(s, UTF_8)', () => {
+  for (const v of vectors['guava-utf8'].vectors) {
+    const options = { seed: v.seed, profile: 'guava-utf8' } as const;
+    if (v.hash32 !== undefined) {
+      assert.strictEqual(hash32(v.input, options), v.hash32, v.input);
+    }
+    if (v.hash128x64 !== undefined) {
+      assert.strictEqual(hash128x64(v.input, options), v.hash128x64, v.input);
+    }
+  }
+});
+
+test('profile go: matches spaolacci/murmur3 Sum32() and Sum128()', () => {
+  for (const v of vectors.go.vectors) {
+    const options = { seed: v.seed, profile: 'go' } as const;
+    assert.strictEqual(hash32(v.input, options), v.hash32, v.input);
+    assert.deepStrictEqual(hash128x64(v.input, options), (v.hash128x64 as string[]).map(BigInt), v.input);
+  }
+});
+
+test('profile smhasher: matches the C++ reference output buffers', () => {
+  const hex = (bytes: unknown) => Buffer.from(bytes as Uint8Array).toString('hex');
+  for (const v of vectors.smhasher.vectors) {
+    const options = { seed: v.seed, profile: 'smhasher' } as const;
+    const label = `${JSON.stringify(v.input)} seed ${v.seed}`;
+    assert.strictEqual(hash32(v.input, options), v.hash32, label);
+    assert.strictEqual(hex(hash128(v.input, options)), v.hash128, label);
+    assert.strictEqual(hex(hash128x64(v.input, options)), v.hash128x64, label);
+  }
+});
+
+test('profile: explicit output, byteOrder and encoding take precedence', () => {
+  assert.strictEqual(hash32('hello', { profile: 'mmh3', output: 'unsigned' }), 613153351);
+  assert.strictEqual(
+    hash128x64('hello', { profile: 'guava', output: 'hex', byteOrder: 'big' }),
+    hash128x64(new Uint8Array(Buffer.from('hello', 'utf16le')))
+  );
+  assert.strictEqual(
+    hash32('naïve', { profile: 'guava', encoding: 'utf8' }),
+    hash32('naïve', { profile: 'guava-utf8' })
+  );
+});
+
+test('profile: streams encode strings per profile', () => {
+  const stream = createHash32({ profile: 'guava' }).update('hel').update('lo');
+  assert.strictEqual(stream.digest(), -675079799);
+
+  const stream128 = createHash128x64({ profile: 'guava' }).update('naïve ').update('café');
+  const resumed = restoreHash128x64(stream128.exportState()).update('!');
+  assert.strictEqual(resumed.digest(), hash128x64('naïve café!', { profile: 'guava' }));
+});
+
+test('profile: rejects unknown profiles and missing variants', () => {
+  assert.throws(() => hash32('a', { profile: 'java' as 'go' }), /Unknown compatibility profile/);
+  assert.throws(() => hash128('a', { profile: 'guava' }), /guava has no x86_128/);
+  assert.throws(() => hash128('a', { profile: 'go' }), /go has no x86_128/);
+});
@@ -0,0 +1,106 @@
+import { test } from 'node:test';
+import assert from 'node:assert';
+import {
+  hash32,
+  hash128,
+  hash128x64,
+  createHash32,
+  createHash128,
+  createHash128x64,
+  restoreHash128x64,
+  hash32Batch,
+  hash128Batch,
+  hash128x64Batch,
+  murmur2,
+  murmur2a,
+  murmur64a,
+  createMurmur2,
+  createMurmur2A,
+  createMurmur64A,
+  wrapSeed,
+  v3,
+} from '../src/index.ts';
+
+const invalid = [1.5, -1, 2 ** 32, 2 ** 40, NaN, Infinity, -Infinity];
+
+const canonical = (digest: unknown) =>
+  Buffer.from(digest as Uint8Array).toString('hex');
+
+test('seed: 32-bit functions reject non-integer and out-of-range seeds', () => {
+  for (const seed of invalid) {
+    assert.throws(() => hash32('x', seed), RangeError, `hash32 ${seed}`);
+    assert.throws(() => hash32('x', { seed, output: 'hex' }), RangeError);
+    assert.throws(() => hash128('x', { seed }), RangeError);
+    assert.throws(() => createHash32(seed), RangeError);
+    assert.throws(() => createHash128({ seed }), RangeError);
+    assert.throws(() => hash32Batch(['x'], seed), RangeError);
+    assert.throws(() => hash128Batch(['x'], seed), RangeError);
+    assert.throws(() => murmur2('x', seed), RangeError);
+    assert.throws(() => murmur2a('x', seed), RangeError);
+    assert.throws(() => createMurmur2(seed), RangeError);
+    assert.throws(() => createMurmur2A(seed), RangeError);
+  }
+  assert.throws(() => hash32('x', { seed: '1' as unknown as number }), TypeError);
+  assert.throws(() => hash32('x', 1.5), /Invalid seed: 1.5 \(expected an integer from 0 to 4294967295\)/);
+});
+
+test('seed: the full 32-bit range is accepted', () => {
+  assert.strictEqual(hash32('hello', 0xffffffff), hash32('hello', { seed: 0xffffffff }));
+  assert.strictEqual(hash32('', 0xffffffff), 0x81f16f39);
+  assert.strictEqual(hash32('hello', -0), hash32('hello', 0));
+});
+
+test('seed: hash128x64 takes 64-bit bigint seeds like the C++ uint64_t variant', () => {
+  const options = { output: 'bytes', byteOrder: 'little' } as const;
+  assert.strictEqual(
+    canonical(hash128x64('hello', { ...options, seed: 0xffffffffffffffffn })),
+    '96531897163cebc087403f82e0adb7db'
+  );
+  assert.strictEqual(
+    canonical(hash128x64('hello', { ...options, seed: 0x100000000n })),
+    '6d43245223bc6dcbef6d7b694ab9485a'
+  );
+  assert.strictEqual(hash128x64('hello', { seed: 42n }), hash128x64('hello', { seed: 42 }));
+  assert.strictEqual(hash128x64('hello', { seed: 2 ** 32 }), hash128x64('hello', { seed: 2n ** 32n }));
+});
+
+test('seed: 64-bit seeds in streams, state and batches', () => {
+  const seed = 0x0123456789abcdefn;
+  const expected = hash128x64('hello world', { seed });
+  const stream = createHash128x64({ seed }).update('hello');
+  assert.strictEqual(restoreHash128x64(stream.exportState()).update(' world').digest(), expected);
+  assert.strictEqual(stream.clone().reset().update('hello world').digest(), expected);
+  assert.strictEqual(
+    Array.from(hash128x64Batch(['hello world'], seed), (w) => w.toString(16).padStart(8, '0')).join(''),
+    expected
+  );
+});
+
+test('seed: 64-bit seeds are range checked', () => {
+  for (const seed of [-1n, 2n ** 64n, -1, 1.5, 2 ** 53, NaN]) {
+    assert.throws(() => hash128x64('x', { seed }), RangeError, String(seed));
+    assert.throws(() => createHash128x64({ seed }), RangeError);
+    assert.throws(() => hash128x64Batch(['x'], seed), RangeError);
+    assert.throws(() => murmur64a('x', { seed }), RangeError);
+    assert.throws(() => createMurmur64A({ seed }), RangeError);
+  }
+  assert.throws(() => hash128({ seed: 1n } as never), TypeError);
+});
+
+test('wrapSeed: reduces integers modulo 2^32', () => {
+  assert.strictEqual(wrapSeed(-1), 0xffffffff);
+  assert.strictEqual(wrapSeed(2 ** 32 + 5), 5);
+  assert.strictEqual(wrapSeed(2 ** 40), 0);
+  assert.strictEqual(wrapSeed(-(2n ** 40n) - 1n), 0xffffffff);
+  assert.strictEqual(wrapSeed(42), 42);
+  assert.strictEqual(hash32('x', wrapSeed(-1)), hash32('x', 0xffffffff));
+  for (const seed of [1.5, NaN, Infinity]) {
+    assert.throws(() => wrapSeed(seed), RangeError);
+  }
+});
+
+test('seed: v1 compatibility coerces seeds like v1', () => {
+  assert.strictEqual(v3.x86.hash32('hello', -1), hash32('hello', 0xffffffff));
+  assert.strictEqual(v3.x86.hash32('hello', 2 ** 32 + 5), hash32('hello', 5));
+  assert.strictEqual(v3.x64.hash128('hello', 1.5), hash128x64('hello', { seed: 1 }));
+});
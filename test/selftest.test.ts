@@ -0,0 +1,38 @@
+import { test } from 'node:test';
+import assert from 'node:assert';
+import { selfTest, setBackend, getBackend } from '../src/index.ts';
+
+test('selfTest: every algorithm matches SMHasher on every backend', () => {
+  const report = selfTest();
+  assert.strictEqual(report.passed, true);
+  assert.deepStrictEqual(
+    report.results.map(({ algorithm, backend, status, expected, actual }) => [
+      algorithm,
+      backend,
+      status,
+      expected,
+      actual,
+    ]),
+    [
+      ['x86_32', 'js', 'passed', 0xb0f57ee3, 0xb0f57ee3],
+      ['x86_128', 'js', 'passed', 0xb3ece62a, 0xb3ece62a],
+      ['x64_128', 'js', 'passed', 0x6384ba69, 0x6384ba69],
+      ['x86_32', 'wasm', 'passed', 0xb0f57ee3, 0xb0f57ee3],
+      ['x86_128', 'wasm', 'passed', 0xb3ece62a, 0xb3ece62a],
+      ['x64_128', 'wasm', 'passed', 0x6384ba69, 0x6384ba69],
+    ]
+  );
+});
+
+test('selfTest: restores the selected backend', () => {
+  try {
+    setBackend('js');
+    selfTest();
+    assert.strictEqual(getBackend(), 'js');
+    setBackend('auto');
+    selfTest();
+    assert.strictEqual(getBackend(), 'wasm');
+  } finally {
+    setBackend('auto');
+  }
+});
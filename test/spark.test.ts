@@ -0,0 +1,100 @@
+import { test } from 'node:test';
+import assert from 'node:assert';
+import {
+  hash32,
+  sparkHash,
+  sparkBucketId,
+  sparkHashInt,
+  sparkHashLong,
+  sparkHashFloat,
+  sparkHashDouble,
+  sparkHashBytes,
+  type SparkColumn,
+} from '../src/index.ts';
+
+test('sparkHash: matches Spark SQL hash()', () => {
+  // SELECT hash('Spark', array(123), 2)
+  assert.strictEqual(
+    sparkHash([
+      { type: 'string', value: 'Spark' },
+      { type: { elementType: 'int' }, value: [123] },
+      { type: 'int', value: 2 },
+    ]),
+    -1321691492
+  );
+  assert.strictEqual(sparkHash([{ type: 'int', value: 1 }]), -559580957); // hash(1)
+  assert.strictEqual(sparkHash([{ type: 'int', value: 0 }]), 933211791); // hash(0)
+  assert.strictEqual(sparkHash([{ type: 'long', value: 1n }]), -1712319331); // hash(1L)
+  assert.strictEqual(sparkHash([{ type: 'string', value: '' }]), 142593372); // hash('')
+});
+
+test('sparkHash: null columns and elements are skipped', () => {
+  assert.strictEqual(sparkHash([{ type: 'string', value: null }]), 42);
+  assert.strictEqual(
+    sparkHash([{ type: 'int', value: null }, { type: 'int', value: 1 }]),
+    sparkHashInt(1)
+  );
+  assert.strictEqual(
+    sparkHash([{ type: { elementType: 'int' }, value: [1, null, 2] }]),
+    sparkHashInt(2, sparkHashInt(1))
+  );
+});
+
+test('sparkHash: typed values', () => {
+  assert.strictEqual(sparkHash([{ type: 'boolean', value: true }]), sparkHashInt(1));
+  assert.strictEqual(sparkHash([{ type: 'short', value: -3 }]), sparkHashInt(-3));
+  assert.strictEqual(sparkHash([{ type: 'date', value: 19000 }]), sparkHashInt(19000));
+  assert.strictEqual(sparkHash([{ type: 'timestamp', value: 1700000000000000n }]), sparkHashLong(1700000000000000n));
+  assert.strictEqual(sparkHash([{ type: 'binary', value: new Uint8Array([1, 2, 3]) }]), sparkHashBytes(new Uint8Array([1, 2, 3])));
+  assert.throws(() => sparkHash([{ type: 'byte', value: 200 }]), RangeError);
+  assert.throws(() => sparkHash([{ type: 'decimal' as 'int', value: 1 }]), TypeError);
+});
+
+test('sparkHashLong: accepts numbers and bigints', () => {
+  assert.strictEqual(sparkHashLong(-5), sparkHashLong(-5n));
+  assert.strictEqual(sparkHashLong(-(2n ** 63n)), sparkHashLong(2n ** 63n * -1n));
+  assert.throws(() => sparkHashLong(2n ** 63n), RangeError);
+  assert.throws(() => sparkHashLong(0.5), RangeError);
+  assert.throws(() => sparkHashInt(2 ** 31), RangeError);
+});
+
+test('spark: seeds are signed or unsigned 32-bit integers', () => {
+  assert.strictEqual(sparkHashInt(7, -1), sparkHashInt(7, 0xffffffff));
+  assert.strictEqual(sparkHashBytes('abc', -(2 ** 31)), sparkHashBytes('abc', 2 ** 31));
+  for (const seed of [1.5, NaN, 2 ** 32, 2 ** 40, -(2 ** 31) - 1, Infinity]) {
+    assert.throws(() => sparkHashInt(1, seed), RangeError, String(seed));
+    assert.throws(() => sparkHashLong(1n, seed), RangeError);
+    assert.throws(() => sparkHashFloat(1.5, seed), RangeError);
+    assert.throws(() => sparkHashDouble(0, seed), RangeError);
+    assert.throws(() => sparkHashBytes('abc', seed), RangeError);
+    assert.throws(() => sparkHash([{ type: 'int', value: 1 }], seed), RangeError);
+  }
+});
+
+test('sparkHashFloat/sparkHashDouble: normalize -0.0 and NaN', () => {
+  assert.strictEqual(sparkHashDouble(-0), sparkHashLong(0));
+  assert.strictEqual(sparkHashFloat(-0), sparkHashInt(0));
+  assert.strictEqual(sparkHashDouble(NaN), sparkHashLong(0x7ff8000000000000n));
+  assert.strictEqual(sparkHashFloat(NaN), sparkHashInt(0x7fc00000));
+  assert.strictEqual(sparkHashDouble(1.5), sparkHashLong(0x3ff8000000000000n));
+  assert.strictEqual(sparkHashFloat(1.5), sparkHashInt(0x3fc00000));
+});
+
+test('sparkHashBytes: trailing bytes are sign-extended blocks', () => {
+  // Aligned input is standard MurmurHash3 x86_32
+  assert.strictEqual(sparkHashBytes('abcd'), hash32('abcd', 42) | 0);
+  assert.notStrictEqual(sparkHashBytes('abc'), hash32('abc', 42) | 0);
+  assert.strictEqual(sparkHashBytes('Spark'), 228093765);
+});
+
+test('sparkBucketId: pmod of the row hash', () => {
+  // hash('Spark', array(123), 2) = -1321691492
+  const row: SparkColumn[] = [
+    { type: 'string', value: 'Spark' },
+    { type: { elementType: 'int' }, value: [123] },
+    { type: 'int', value: 2 },
+  ];
+  assert.strictEqual(sparkBucketId(row, 8), 4);
+  assert.strictEqual(sparkBucketId(row, 100), 8);
+  assert.throws(() => sparkBucketId(row, 0), RangeError);
+});
@@ -0,0 +1,100 @@
+import { test } from 'node:test';
+import assert from 'node:assert';
+import {
+  hash32,
+  hash128,
+  hash128x64,
+  createHash32,
+  createHash128,
+  createHash128x64,
+  restoreHash32,
+  restoreHash128,
+  restoreHash128x64,
+} from '../src/index.ts';
+
+const bytes = new TextEncoder().encode('I will not buy this record, it is scratched.');
+
+test('exportState: resumed Hash32Stream matches one-shot', () => {
+  for (let split = 0; split <= bytes.length; split++) {
+    const first = createHash32(42).update(bytes.subarray(0, split));
+    const resumed = restoreHash32(first.exportState());
+    resumed.update(bytes.subarray(split));
+    assert.strictEqual(resumed.digest(), hash32(bytes, 42), `split at ${split}`);
+  }
+});
+
+test('exportState: resumed Hash128Stream matches one-shot', () => {
+  for (let split = 0; split <= bytes.length; split++) {
+    const first = createHash128({ seed: 42 }).update(bytes.subarray(0, split));
+    const resumed = restoreHash128(first.exportState());
+    resumed.update(bytes.subarray(split));
+    assert.strictEqual(resumed.digest(), hash128(bytes, { seed: 42 }), `split at ${split}`);
+  }
+});
+
+test('exportState: resumed Hash128x64Stream matches one-shot', () => {
+  for (let split = 0; split <= bytes.length; split++) {
+    const first = createHash128x64({ seed: 42 }).update(bytes.subarray(0, split));
+    const resumed = restoreHash128x64(first.exportState());
+    resumed.update(bytes.subarray(split));
+    assert.strictEqual(resumed.digest(), hash128x64(bytes, { seed: 42 }), `split at ${split}`);
+  }
+});
+
+test('exportState: preserves output format', () => {
+  const stream = createHash128x64({ seed: 3, output: 'bigint' }).update('hello');
+  const resumed = restoreHash128x64(stream.exportState());
+  assert.strictEqual(resumed.digest(), hash128x64('hello', { seed: 3, output: 'bigint' }));
+});
+
+test('exportState: preserves string encoding', () => {
+  for (const encoding of ['utf8', 'utf16le', 'latin1'] as const) {
+    const stream = createHash32({ encoding }).update('façade ');
+    const resumed = restoreHash32(stream.exportState()).update('ünïcode');
+    assert.strictEqual(resumed.digest(), hash32('façade ünïcode', { encoding }), encoding);
+  }
+});
+
+test('exportState: state is compact', () => {
+  const stream = createHash128().update(new Uint8Array(1 << 16)).update('abc');
+  assert.strictEqual(stream.exportState().length, 20 + 16 + 3 + 4);
+});
+
+test('restore: rejects a state from another algorithm', () => {
+  const state = createHash128().update('abc').exportState();
+  assert.throws(() => restoreHash128x64(state), /state is for x86_128, not x64_128/);
+  assert.throws(() => restoreHash32(state), /state is for x86_128, not x86_32/);
+});
+
+test('restore: rejects truncated state', () => {
+  const state = createHash32().update('abcdef').exportState();
+  for (let len = 0; len < state.length; len++) {
+    assert.throws(() => restoreHash32(state.subarray(0, len)), /Invalid hash state/);
+  }
+});
+
+test('restore: rejects corrupted state', () => {
+  const state = createHash128x64().update('abcdef').exportState();
+  for (let i = 0; i < state.length; i++) {
+    const corrupt = state.slice();
+    corrupt[i] ^= 0x01;
+    assert.throws(() => restoreHash128x64(corrupt), /Invalid hash state/, `byte ${i}`);
+  }
+});
+
+test('restore: rejects an output format the algorithm does not support', () => {
+  // Re-seal a blob with a 128-bit-only output id and a valid checksum
+  const state = createHash32().update('abc').exportState();
+  state[6] = (state[6] & 0xf0) | 5; // 'pair'
+  let h = 0x811c9dc5;
+  for (let i = 0; i < state.length - 4; i++) {
+    h = Math.imul(h ^ state[i], 0x01000193);
+  }
+  new DataView(state.buffer).setUint32(state.length - 4, h >>> 0, true);
+  assert.throws(() => restoreHash32(state), /output format pair is not valid for x86_32/);
+});
+
+test('restore: rejects non-state input', () => {
+  assert.throws(() => restoreHash32(new TextEncoder().encode('definitely not a hash state blob')), /not a murmur-hash state/);
+  assert.throws(() => restoreHash32('abc' as unknown as Uint8Array), TypeError);
+});
@@ -0,0 +1,93 @@
+import { test } from 'node:test';
+import assert from 'node:assert';
+import {
+  hash32,
+  hash128,
+  hash128x64,
+  createHash32,
+  createHash128,
+  createHash128x64,
+  type HashInput,
+} from '../src/index.ts';
+
+interface Stream {
+  update(input: HashInput): Stream;
+  digest(): unknown;
+  clone(): Stream;
+  reset(): Stream;
+}
+
+// Each variant streams and hashes with the given seed (default 0)
+const VARIANTS: Array<{
+  name: string;
+  create: (seed?: number) => Stream;
+  hash: (input: HashInput, seed?: number) => unknown;
+}> = [
+  {
+    name: 'createHash32',
+    create: (seed) => createHash32(seed),
+    hash: (input, seed) => hash32(input, seed),
+  },
+  {
+    name: 'createHash128',
+    create: (seed) => createHash128({ seed, output: 'bigint' }),
+    hash: (input, seed) => hash128(input, { seed, output: 'bigint' }),
+  },
+  {
+    name: 'createHash128x64',
+    create: (seed) => createHash128x64({ seed, output: 'bigint' }),
+    hash: (input, seed) => hash128x64(input, { seed, output: 'bigint' }),
+  },
+];
+
+for (const { name, create, hash } of VARIANTS) {
+  test(`${name}: matches one-shot for every chunk split`, () => {
+    const bytes = new TextEncoder().encode('I will not buy this record, it is scratched.');
+    const oneShot = hash(bytes, 7);
+
+    for (let i = 0; i <= bytes.length; i++) {
+      for (let j = i; j <= bytes.length; j++) {
+        const streamed = create(7);
+        streamed.update(bytes.subarray(0, i));
+        streamed.update(bytes.subarray(i, j));
+        streamed.update(bytes.subarray(j));
+        assert.strictEqual(streamed.digest(), oneShot, `split at ${i}, ${j}`);
+      }
+    }
+  });
+
+  test(`${name}: byte-at-a-time updates match one-shot`, () => {
+    const bytes = new Uint8Array(257).map((_, i) => (i * 31) & 0xff);
+    const streamed = create();
+    for (let i = 0; i < bytes.length; i++) {
+      streamed.update(bytes.subarray(i, i + 1));
+    }
+    assert.strictEqual(streamed.digest(), hash(bytes));
+  });
+
+  test(`${name}: digest() does not consume the stream`, () => {
+    const streamed = create(5);
+    streamed.update('hello');
+    assert.strictEqual(streamed.digest(), hash('hello', 5));
+    assert.strictEqual(streamed.digest(), hash('hello', 5));
+    streamed.update(' world');
+    assert.strictEqual(streamed.digest(), hash('hello world', 5));
+  });
+
+  test(`${name}: clone() forks the state`, () => {
+    const prefix = create(5).update('tenant-42:v1:');
+    const a = prefix.clone().update('alpha');
+    const b = prefix.clone().update('beta');
+
+    assert.strictEqual(a.digest(), hash('tenant-42:v1:alpha', 5));
+    assert.strictEqual(b.digest(), hash('tenant-42:v1:beta', 5));
+    assert.strictEqual(prefix.digest(), hash('tenant-42:v1:', 5));
+  });
+
+  test(`${name}: reset() keeps seed and settings`, () => {
+    const streamed = create(5).update('discarded input');
+    assert.strictEqual(streamed.reset(), streamed);
+    streamed.update('hello');
+    assert.strictEqual(streamed.digest(), hash('hello', 5));
+  });
+}
@@ -0,0 +1,104 @@
+import { test } from 'node:test';
+import assert from 'node:assert';
+import { Readable, Writable } from 'node:stream';
+import { pipeline } from 'node:stream/promises';
+import {
+  hash32,
+  hash128,
+  hash128x64,
+  createHash32,
+  createHash128,
+  createHash128x64,
+  createHashTransformStream,
+} from '../src/index.ts';
+import { createHashTransform } from '../src/node/index.ts';
+
+const chunks = ['hello', ' ', 'world', '!'].map((s) => new TextEncoder().encode(s));
+const joined = new TextEncoder().encode('hello world!');
+
+function collector(received: Uint8Array[]) {
+  return new Writable({
+    write(chunk, _encoding, callback) {
+      received.push(chunk);
+      callback();
+    },
+  });
+}
+
+test('HashTransform: forwards chunks unchanged and resolves the digest', async () => {
+  const hasher = createHashTransform(createHash128x64({ output: 'bigint' }));
+  const received: Uint8Array[] = [];
+  let emitted: unknown;
+  hasher.on('digest', (digest) => (emitted = digest));
+  await pipeline(Readable.from(chunks), hasher, collector(received));
+
+  assert.deepStrictEqual(Buffer.concat(received), Buffer.from(joined));
+  const expected = hash128x64(joined, { output: 'bigint' });
+  assert.strictEqual(await hasher.digest, expected);
+  assert.strictEqual(emitted, expected);
+});
+
+test('HashTransform: matching expected digest passes', async () => {
+  const expected = hash32(joined, { output: 'bytes' });
+  const hasher = createHashTransform(createHash32({ output: 'bytes' }), {
+    expected,
+  });
+  await pipeline(Readable.from(chunks), hasher, collector([]));
+  assert.deepStrictEqual(await hasher.digest, expected);
+});
+
+test('HashTransform: mismatched expected digest fails the pipeline', async () => {
+  const hasher = createHashTransform(createHash128(), { expected: '00' });
+  await assert.rejects(
+    pipeline(Readable.from(chunks), hasher, collector([])),
+    /Digest mismatch: expected 00, got [0-9a-f]{32}/
+  );
+  await assert.rejects(hasher.digest, /Digest mismatch/);
+});
+
+test('HashTransform: digest rejects when the pipeline fails first', async () => {
+  const hasher = createHashTransform(createHash32());
+  const failing = new Readable({
+    read() {
+      this.destroy(new Error('upstream failed'));
+    },
+  });
+  await assert.rejects(pipeline(failing, hasher, collector([])), /upstream failed/);
+  await assert.rejects(hasher.digest, /upstream failed|destroyed/);
+});
+
+test('HashTransformStream: forwards chunks unchanged and resolves the digest', async () => {
+  const transform = createHashTransformStream(createHash128({ seed: 3 }));
+  const received: Uint8Array[] = [];
+  await ReadableStream.from(chunks)
+    .pipeThrough(transform)
+    .pipeTo(new WritableStream({ write: (chunk) => void received.push(chunk) }));
+
+  assert.deepStrictEqual(received, chunks);
+  assert.strictEqual(await transform.digest, hash128(joined, { seed: 3 }));
+});
+
+test('HashTransformStream: expected digest mismatch errors the stream', async () => {
+  const expected = hash128x64(joined, { output: 'pair' });
+  const ok = createHashTransformStream(createHash128x64({ output: 'pair' }), {
+    expected,
+  });
+  await ReadableStream.from(chunks).pipeThrough(ok).pipeTo(new WritableStream());
+  assert.deepStrictEqual(await ok.digest, expected);
+
+  const bad = createHashTransformStream(createHash128x64({ output: 'pair' }), {
+    expected: [0n, 0n],
+  });
+  await assert.rejects(
+    ReadableStream.from(chunks).pipeThrough(bad).pipeTo(new WritableStream()),
+    /Digest mismatch: expected \[0, 0\]/
+  );
+  await assert.rejects(bad.digest, /Digest mismatch/);
+});
+
+test('HashTransformStream: digest rejects when the stream is aborted', async () => {
+  const transform = createHashTransformStream(createHash32());
+  const writer = transform.writable.getWriter();
+  await writer.abort(new Error('upload cancelled'));
+  await assert.rejects(transform.digest, /upload cancelled/);
+});
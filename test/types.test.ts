@@ -0,0 +1,187 @@
+import { test } from 'node:test';
+import assert from 'node:assert';
+import { fileURLToPath } from 'node:url';
+import { dirname, join } from 'node:path';
+import ts from 'typescript';
+import {
+  hash32,
+  hash128,
+  hash128x64,
+  murmur64a,
+  createHash32,
+  createHash128,
+  createHash128x64,
+  createMurmur64A,
+  restoreHash128,
+  hash32Async,
+  hash128x64Async,
+  createHasher,
+  createRandomizedHasher,
+  v3,
+  type Hash128Options,
+  type Hash128Stream,
+  type Hash128x64Stream,
+  type Digest128,
+} from '../src/index.ts';
+import type { HashPool } from '../src/node/index.ts';
+
+// Type-level assertions, checked by compiling this file in the last test.
+// Equal<A, B> is true only if A and B are identical types.
+type Equal<A, B> =
+  (<T>() => T extends A ? 1 : 2) extends <T>() => T extends B ? 1 : 2
+    ? true
+    : false;
+
+function expectType<T>(): <V>(value: V, check: Equal<V, T>) => V {
+  return (value) => value;
+}
+
+test('types: hash128() and hash128x64() follow the output option', () => {
+  const hex = expectType<string>()(hash128('test'), true);
+  const big = expectType<bigint>()(hash128('test', { output: 'bigint' }), true);
+  const bytes = expectType<Uint8Array>()(
+    hash128('test', { seed: 1, output: 'bytes', byteOrder: 'little' }),
+    true
+  );
+  expectType<string>()(hash128('test', { output: 'base64url' }), true);
+  expectType<string>()(hash128x64('test'), true);
+  const pair = expectType<[bigint, bigint]>()(
+    hash128x64('test', { output: 'pair' }),
+    true
+  );
+
+  assert.strictEqual(typeof hex, 'string');
+  assert.strictEqual(typeof big, 'bigint');
+  assert.ok(bytes instanceof Uint8Array);
+  assert.strictEqual(pair.length, 2);
+});
+
+test('types: profiles select their output type unless output is given', () => {
+  const mmh3 = expectType<bigint>()(hash128('test', { profile: 'mmh3' }), true);
+  const go = expectType<[bigint, bigint]>()(
+    hash128x64('test', { profile: 'go' }),
+    true
+  );
+  expectType<Uint8Array>()(hash128x64('test', { profile: 'smhasher' }), true);
+  expectType<string>()(hash128x64('test', { profile: 'guava' }), true);
+  expectType<string>()(
+    hash128('test', { profile: 'mmh3', output: 'hex' }),
+    true
+  );
+  const signed = expectType<number>()(
+    hash32('test', { profile: 'mmh3' }),
+    true
+  );
+
+  assert.strictEqual(typeof mmh3, 'bigint');
+  assert.strictEqual(Array.isArray(go), true);
+  assert.ok(signed < 0 || Number.isInteger(signed));
+});
+
+test('types: hash32() follows the output option', () => {
+  expectType<number>()(hash32('test'), true);
+  expectType<number>()(hash32('test', 42), true);
+  expectType<number>()(hash32('test', { seed: 42 }), true);
+  const hex = expectType<string>()(hash32('test', { output: 'hex' }), true);
+  expectType<Uint8Array>()(hash32('test', { output: 'bytes' }), true);
+  assert.strictEqual(typeof hex, 'string');
+});
+
+test('types: widely typed options give the union of output types', () => {
+  const options: Hash128Options = { output: 'bigint' };
+  expectType<Digest128<'hex' | 'bigint' | 'bytes' | 'base64' | 'base64url'>>()(
+    hash128('test', options),
+    true
+  );
+  expectType<string | bigint | Uint8Array>()(hash128('test', options), true);
+
+  const output = Math.random() < 2 ? 'hex' : 'bigint';
+  expectType<string | bigint>()(hash128('test', { output }), true);
+});
+
+test('types: streams carry their output type', () => {
+  const stream = createHash128({ output: 'bigint' });
+  expectType<Hash128Stream<'bigint'>>()(stream, true);
+  expectType<Hash128Stream<'bigint'>>()(stream.update('a').clone(), true);
+  const digest = expectType<bigint>()(stream.digest(), true);
+
+  expectType<Hash128Stream<'hex'>>()(createHash128(), true);
+  expectType<Hash128x64Stream<'pair'>>()(
+    createHash128x64({ profile: 'go' }),
+    true
+  );
+  expectType<string>()(createHash128x64().digest(), true);
+  expectType<number>()(createHash32(42).digest(), true);
+  expectType<string>()(createHash32({ output: 'hex' }).digest(), true);
+  expectType<bigint>()(createMurmur64A({ output: 'bigint' }).digest(), true);
+
+  // A restored stream's output format is only known at runtime
+  expectType<Hash128Stream>()(restoreHash128(stream.exportState()), true);
+
+  assert.strictEqual(typeof digest, 'bigint');
+});
+
+test('types: murmur64a(), v1 compatibility, async and pool results', () => {
+  expectType<string>()(murmur64a('test'), true);
+  expectType<bigint>()(murmur64a('test', { output: 'bigint' }), true);
+  expectType<string>()(v3.x86.hash128('test'), true);
+  expectType<string>()(v3.x64.hash128('test'), true);
+
+  const fromSource = (source: Blob) =>
+    hash128x64Async(source, { output: 'bigint', readSize: 1024 });
+  expectType<(source: Blob) => Promise<bigint>>()(fromSource, true);
+  const signed = (source: Blob) => hash32Async(source, { profile: 'guava' });
+  expectType<(source: Blob) => Promise<number>>()(signed, true);
+
+  const pooled = (pool: HashPool) => pool.hash128x64([], { output: 'bigint' });
+  expectType<(pool: HashPool) => Promise<bigint[]>>()(pooled, true);
+});
+
+test('types: createHasher() infers digests of built-in algorithms', () => {
+  const hasher = createHasher({ algorithm: 'x64_128', output: 'bigint' });
+  const big = expectType<bigint>()(hasher.hash('test'), true);
+  expectType<bigint>()(hasher.stream().update('test').digest(), true);
+  expectType<number>()(createHasher({ algorithm: 'x86_32' }).hash('test'), true);
+  expectType<string>()(
+    createHasher({ algorithm: 'x86_32', output: 'hex' }).hash('test'),
+    true
+  );
+  expectType<string>()(createHasher({ algorithm: 'x86_128' }).hash('test'), true);
+  expectType<number>()(createHasher({ algorithm: 'murmur2a' }).hash('test'), true);
+  expectType<bigint>()(
+    createHasher({ algorithm: 'murmur64a', output: 'bigint' }).hash('test'),
+    true
+  );
+
+  // Names read from configuration are only known at runtime
+  const configured: string = 'x86_128';
+  expectType<unknown>()(createHasher({ algorithm: configured }).hash('test'), true);
+
+  expectType<number>()(createRandomizedHasher().hash('test'), true);
+  expectType<Uint8Array>()(
+    createRandomizedHasher({ algorithm: 'x86_128', output: 'bytes' }).hash('test'),
+    true
+  );
+
+  assert.strictEqual(typeof big, 'bigint');
+});
+
+test('types: mismatched digest types do not compile', () => {
+  // @ts-expect-error a bigint digest is not a string
+  const wrong: string = hash128('test', { output: 'bigint' });
+  // @ts-expect-error the default digest is not a bigint
+  expectType<bigint>()(hash128('test'), true);
+  assert.strictEqual(typeof wrong, 'bigint');
+});
+
+test('types: this file type-checks', () => {
+  const file = fileURLToPath(import.meta.url);
+  const root = join(dirname(file), '..');
+  const config = ts.readConfigFile(join(root, 'tsconfig.json'), ts.sys.readFile);
+  const { options } = ts.parseJsonConfigFileContent(config.config, ts.sys, root);
+  const program = ts.createProgram([file], { ...options, rootDir: root });
+  const diagnostics = ts.getPreEmitDiagnostics(program).map((d) =>
+    ts.flattenDiagnosticMessageText(d.messageText, '\n')
+  );
+  assert.deepStrictEqual(diagnostics, []);
+});
@@ -1,11 +1,17 @@
 import { defineConfig } from 'tsup';
 
 export default defineConfig({
-  entry: ['src/index.ts'],
+  entry: {
+    index: 'src/index.ts',
+    node: 'src/node/index.ts',
+    'hash-worker': 'src/node/hash-worker.ts',
+  },
   format: ['cjs', 'esm'],
   dts: true,
   clean: true,
   sourcemap: true,
   minify: false,
   target: 'es2020',
+  // import.meta.url locates the worker script in the CJS build
+  shims: true,
 });